@@ -1,90 +1,141 @@
 import { App, Plugin, Menu, Notice, TFile } from 'obsidian';
-import { ZettelkastenSettings, DEFAULT_SETTINGS } from './settings';
+import { ZettelkastenSettings, DEFAULT_SETTINGS, DEFAULT_MAIN_BOX } from './settings';
+import { ImportTarget, MainCardEntry } from './types';
 import { ZettelkastenSettingTab } from './modules/settings-tab';
 import { CanvasManager } from './modules/canvas-manager';
 import { FileManager } from './modules/file-manager';
 import { UIManager } from './modules/ui-manager';
+import { CardIndex } from './modules/card-index';
+import { HierarchyView, HIERARCHY_VIEW_TYPE } from './modules/hierarchy-view';
+import { CardContextView, CARD_CONTEXT_VIEW_TYPE } from './modules/card-context-view';
+import { MoveCardModal, MoveTarget } from './modules/move-card-modal';
+import { LayoutSuggestModal } from './modules/layout-modal';
+import { KnowledgeTreeOptionsModal } from './modules/tree-options-modal';
+import { IdChecker } from './modules/id-checker';
+import { MainCardIdHelper } from './modules/id-helper';
+import { createIdScheme } from './modules/id-scheme';
+import { StructureNoteManager } from './modules/structure-note-manager';
+import { ExportManager, EXPORT_FORMAT_LABELS } from './modules/export-manager';
+import { ExportFormatModal } from './modules/export-format-modal';
+import { ImportManager } from './modules/import-manager';
+import { ImportSourceModal, ImportParentModal } from './modules/import-modal';
+import { ImportPreviewModal } from './modules/import-preview-modal';
+import { CardSwitcherModal } from './modules/card-switcher-modal';
+import { IndexManager } from './modules/index-manager';
+import { KeywordModal } from './modules/keyword-modal';
+import { RetiredIdRegistry } from './modules/retired-id-registry';
+import { RetiredIdView, RETIRED_ID_VIEW_TYPE } from './modules/retired-id-view';
+import { OperationJournal } from './modules/operation-journal';
+import { JournalView, JOURNAL_VIEW_TYPE } from './modules/journal-view';
+import { StatisticsView, STATISTICS_VIEW_TYPE } from './modules/statistics-view';
+import { IdCheckView, ID_CHECK_VIEW_TYPE } from './modules/id-check-view';
 
 export class ZettelkastenPlugin extends Plugin {
     settings: ZettelkastenSettings;
     canvasManager: CanvasManager;
     fileManager: FileManager;
     uiManager: UIManager;
+    idChecker: IdChecker;
+    cardIndex: CardIndex;
+    structureNoteManager: StructureNoteManager;
+    exportManager: ExportManager;
+    importManager: ImportManager;
+    indexManager: IndexManager;
+    retiredIdRegistry: RetiredIdRegistry;
+    journal: OperationJournal;
 
     async onload() {
         await this.loadSettings();
+        this.applyIdScheme();
         
         // 初始化各个管理器
+        this.cardIndex = new CardIndex(this);
         this.canvasManager = new CanvasManager(this);
         this.fileManager = new FileManager(this);
         this.uiManager = new UIManager(this);
+        this.idChecker = new IdChecker(this);
+        this.structureNoteManager = new StructureNoteManager(this);
+        this.exportManager = new ExportManager(this);
+        this.importManager = new ImportManager(this);
+        this.indexManager = new IndexManager(this);
+        this.retiredIdRegistry = new RetiredIdRegistry(this);
+        this.journal = new OperationJournal(this);
+
+        this.registerView(ID_CHECK_VIEW_TYPE, (leaf) => new IdCheckView(leaf, this));
+        this.registerView(RETIRED_ID_VIEW_TYPE, (leaf) => new RetiredIdView(leaf, this));
+        this.registerView(JOURNAL_VIEW_TYPE, (leaf) => new JournalView(leaf, this));
+        this.registerView(STATISTICS_VIEW_TYPE, (leaf) => new StatisticsView(leaf, this));
+
+        // 主卡索引最先响应文件和元数据变动，保证其他监听器读取到最新索引，随后同步知识树
+        this.registerEvent(this.app.vault.on('create', (file) => {
+            if (this.cardIndex.handleCreate(file)) {
+                this.canvasManager.handleCardCreated(file as TFile);
+            }
+        }));
+        this.registerEvent(this.app.vault.on('delete', (file) => {
+            const oldId = this.cardIndex.handleDelete(file);
+            if (oldId !== undefined && file instanceof TFile) {
+                this.canvasManager.handleCardDeleted(file, oldId);
+                // 删除的主卡编号不再复用；撤销新建主卡时除外
+                const box = this.cardIndex.getBoxForPath(file.path);
+                if (box && !this.journal.isUndoing()) {
+                    this.retiredIdRegistry.retire(file, box, oldId).catch((error) => {
+                        new Notice('记录退役编号失败：' + error.message);
+                    });
+                }
+            }
+        }));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            const oldId = this.cardIndex.handleRename(file, oldPath);
+            if (file instanceof TFile && (oldId !== undefined || this.cardIndex.getEntry(file))) {
+                this.canvasManager.handleCardRenamed(file, oldId);
+            }
+        }));
+        this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+            const oldId = this.cardIndex.handleMetadataChanged(file);
+            this.canvasManager.handleCardMetadataChanged(file, oldId);
+        }));
+        this.registerEvent(this.app.metadataCache.on('resolved', () => {
+            this.canvasManager.flushPendingCreated();
+        }));
 
         // 添加设置面板
         this.addSettingTab(new ZettelkastenSettingTab(this.app, this));
 
-        // 监听 Obsidian 面板和布局变化
-        this.registerEvent(this.app.workspace.on('layout-change', () => {
-            this.uiManager.updateExplorerTitles();
-        }));
+        // 主盒层级视图
+        this.registerView(HIERARCHY_VIEW_TYPE, (leaf) => new HierarchyView(leaf, this));
+        this.addRibbonIcon('list-tree', '打开主盒层级', () => this.uiManager.activateHierarchyView());
+
+        // 主卡上下文面板
+        this.registerView(CARD_CONTEXT_VIEW_TYPE, (leaf) => new CardContextView(leaf, this));
+
+        // 监听当前文件和主卡变动，刷新层级视图
         this.registerEvent(this.app.workspace.on('active-leaf-change', () => {
-            this.uiManager.updateExplorerTitles();
+            this.uiManager.refreshViews();
         }));
-
-        // 监听元数据和文件变动
         this.registerEvent(this.app.metadataCache.on('changed', () => {
-            this.uiManager.updateExplorerTitles();
+            this.uiManager.refreshViews();
         }));
         this.registerEvent(this.app.vault.on('rename', () => {
-            this.uiManager.updateExplorerTitles();
+            this.uiManager.refreshViews();
         }));
         this.registerEvent(this.app.vault.on('delete', () => {
-            this.uiManager.updateExplorerTitles();
+            this.uiManager.refreshViews();
         }));
         this.registerEvent(this.app.vault.on('create', () => {
-            this.uiManager.updateExplorerTitles();
+            this.uiManager.refreshViews();
         }));
 
-        // 监听文件资源管理器的展开/折叠事件
-        this.registerEvent(
-            this.app.workspace.on('file-explorer:folder-open' as any, () => {
-                this.uiManager.updateExplorerTitles();
-            })
-        );
-
-        this.registerEvent(
-            this.app.workspace.on('file-open', () => {
-                this.uiManager.patchMainBoxFileItemSortWithRetry();
-            })
-        );
-
-        // 等待布局完全加载后再更新标题
+        // 等待布局完全加载后再构建索引、刷新视图
         this.app.workspace.onLayoutReady(() => {
-            this.uiManager.updateExplorerTitles();
-            this.uiManager.patchMainBoxFileItemSortWithRetry();
+            this.cardIndex.build();
+            this.uiManager.refreshViews();
         });
 
-        // 监听文件创建事件，自动更新知识树
-        this.registerEvent(
-            this.app.vault.on('create', async (file) => {
-                if (!(file instanceof TFile)) return;
-                if (!file.path.startsWith(this.settings.mainBoxPath)) return;
-                await this.canvasManager.updateAllKnowledgeTrees(file);
-            })
-        );
-
-        // 监听文件删除事件
-        this.registerEvent(
-            this.app.vault.on('delete', async (file) => {
-                if (!(file instanceof TFile)) return;
-                if (!file.path.startsWith(this.settings.mainBoxPath)) return;
-                await this.canvasManager.updateAllKnowledgeTreesOnDelete(file);
-            })
-        );
-
         // 右键菜单项 - 在 Canvas 中展示知识树
         this.registerEvent(
             this.app.workspace.on('file-menu', (menu: Menu, file: TFile) => {
-                if (!file.path.startsWith(this.settings.mainBoxPath)) return;
+                if (!this.cardIndex.isMainCardFile(file)) return;
                 
                 menu.addItem((item) => {
                     item
@@ -92,12 +143,39 @@ export class ZettelkastenPlugin extends Plugin {
                         .setIcon('diagram-tree')
                         .onClick(async () => {
                             try {
-                                await this.canvasManager.createKnowledgeTreeCanvas(file);
+                                await this.canvasManager.openKnowledgeTreeCanvas(file);
                             } catch (error) {
-                                new Notice('创建知识树 Canvas 失败：' + error.message);
+                                new Notice('展示知识树失败：' + error.message);
                             }
                         });
                 });
+
+                menu.addItem((item) => {
+                    item
+                        .setTitle('生成结构笔记')
+                        .setIcon('list')
+                        .onClick(async () => {
+                            try {
+                                await this.structureNoteManager.createStructureNote(file);
+                            } catch (error) {
+                                new Notice('生成结构笔记失败：' + error.message);
+                            }
+                        });
+                });
+
+                menu.addItem((item) => {
+                    item
+                        .setTitle('导出分支…')
+                        .setIcon('file-output')
+                        .onClick(() => this.openExportModal(file));
+                });
+
+                menu.addItem((item) => {
+                    item
+                        .setTitle('添加到索引…')
+                        .setIcon('book-a')
+                        .onClick(() => this.openKeywordModal(file));
+                });
             })
         );
 
@@ -105,7 +183,7 @@ export class ZettelkastenPlugin extends Plugin {
         this.registerEvent(
             this.app.workspace.on('file-menu', (menu: Menu, file: TFile) => {
                 if (!this.settings.enableMainCardGenerationAssit) return;
-                if (!file.path.startsWith(this.settings.mainBoxPath)) return;
+                if (!this.cardIndex.isMainCardFile(file)) return;
                 
                 // 添加新建兄弟主卡选项
                 menu.addItem((item) => {
@@ -137,13 +215,390 @@ export class ZettelkastenPlugin extends Plugin {
             })
         );
 
-        this.app.workspace.onLayoutReady(() => {
-            this.uiManager.patchMainBoxFileItemSortWithRetry();
+        // 右键菜单项 - 知识树 Canvas 的深度和筛选选项
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu: Menu, file: TFile) => {
+                if (!(file instanceof TFile) || file.extension !== 'canvas') return;
+                if (!this.cardIndex.getBoxForCanvas(file)) return;
+
+                menu.addItem((item) => {
+                    item
+                        .setTitle('知识树选项…')
+                        .setIcon('filter')
+                        .onClick(() => this.openKnowledgeTreeOptionsModal(file));
+                });
+            })
+        );
+
+        // 右键菜单项 - 从大纲导入主卡
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu: Menu, file: TFile) => {
+                if (!(file instanceof TFile)) return;
+                if (!this.importManager.isImportSource(file)) return;
+
+                menu.addItem((item) => {
+                    item
+                        .setTitle('作为大纲导入主卡…')
+                        .setIcon('import')
+                        .onClick(() => this.openImportParentModal(file));
+                });
+            })
+        );
+
+        // 右键菜单项 - 将收件箱笔记归档为主卡
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu: Menu, file: TFile) => {
+                if (!this.fileManager.isInboxNote(file)) return;
+
+                menu.addItem((item) => {
+                    item
+                        .setTitle('归档为主卡…')
+                        .setIcon('archive')
+                        .onClick(() => this.openArchiveModal(file));
+                });
+            })
+        );
+
+        // 右键菜单项 - 移动主卡分支
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu: Menu, file: TFile) => {
+                if (!this.cardIndex.isMainCardFile(file)) return;
+
+                menu.addItem((item) => {
+                    item
+                        .setTitle('移动到…')
+                        .setIcon('folder-input')
+                        .onClick(() => this.openMoveCardModal(file));
+                });
+            })
+        );
+
+        this.registerCommands();
+    }
+
+    private registerCommands() {
+        // 主卡创建和知识树
+        this.addMainCardCommand('new-sibling-card', '新建兄弟主卡', '创建兄弟主卡失败：',
+            (file) => this.fileManager.createNewSiblingCard(file));
+        this.addMainCardCommand('new-child-card', '新建子主卡', '创建子主卡失败：',
+            (file) => this.fileManager.createNewChildCard(file));
+        this.addMainCardCommand('show-knowledge-tree', '在 Canvas 中展示知识树', '展示知识树失败：',
+            (file) => this.canvasManager.openKnowledgeTreeCanvas(file));
+        this.addMainCardCommand('create-structure-note', '生成结构笔记', '生成结构笔记失败：',
+            (file) => this.structureNoteManager.createStructureNote(file));
+        this.addMainCardCommand('export-branch', '导出分支…', '导出分支失败：',
+            async (file) => this.openExportModal(file));
+        this.addMainCardCommand('add-to-index', '添加到索引…', '添加到索引失败：',
+            async (file) => this.openKeywordModal(file));
+        this.addMainCardCommand('move-main-card', '移动到…', '移动主卡失败：',
+            (file) => this.openMoveCardModal(file));
+
+        this.addCommand({
+            id: 'import-outline',
+            name: '从大纲导入主卡…',
+            callback: () => {
+                new ImportSourceModal(this.app, this.importManager.getImportSources(),
+                    (source) => this.openImportParentModal(source)).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'update-register-note',
+            name: '更新索引总览',
+            callback: async () => {
+                try {
+                    const note = await this.indexManager.updateRegisterNote();
+                    await this.app.workspace.getLeaf(false).openFile(note);
+                } catch (error) {
+                    new Notice('更新索引总览失败：' + error.message);
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'archive-inbox-note',
+            name: '归档为主卡…',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || !this.fileManager.isInboxNote(file)) return false;
+                if (!checking) this.openArchiveModal(file);
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'refresh-all-knowledge-trees',
+            name: '刷新所有知识树',
+            callback: async () => {
+                try {
+                    const count = await this.canvasManager.refreshAllKnowledgeTrees();
+                    new Notice(`已刷新 ${count} 个知识树`);
+                } catch (error) {
+                    new Notice('刷新知识树失败：' + error.message);
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'open-card-switcher',
+            name: '快速切换主卡…',
+            callback: () => new CardSwitcherModal(this).open()
+        });
+
+        // 按主卡层级和阅读顺序导航
+        this.addNavigationCommand('go-to-parent-card', '跳转到父主卡',
+            (entry) => this.cardIndex.getParent(entry.box, entry.id));
+        this.addNavigationCommand('go-to-next-sibling-card', '跳转到下一个兄弟主卡', (entry) => {
+            const siblings = this.cardIndex.getSiblings(entry.box, entry.id);
+            return siblings[siblings.indexOf(entry) + 1];
+        });
+        this.addNavigationCommand('go-to-previous-sibling-card', '跳转到上一个兄弟主卡', (entry) => {
+            const siblings = this.cardIndex.getSiblings(entry.box, entry.id);
+            const index = siblings.indexOf(entry);
+            return index > 0 ? siblings[index - 1] : undefined;
+        });
+        this.addNavigationCommand('go-to-first-child-card', '跳转到第一个子主卡',
+            (entry) => this.cardIndex.getChildren(entry.box, entry.id)[0]);
+        this.addNavigationCommand('go-to-next-card', '跳转到阅读顺序中的下一张主卡',
+            (entry) => this.cardIndex.getNext(entry.file));
+        this.addNavigationCommand('go-to-previous-card', '跳转到阅读顺序中的上一张主卡',
+            (entry) => this.cardIndex.getPrevious(entry.file));
+
+        this.addCommand({
+            id: 'check-main-box-ids',
+            name: '检查主盒 ID',
+            callback: () => this.activateIdCheckView()
+        });
+
+        this.addCommand({
+            id: 'undo-last-operation',
+            name: '撤销上一次主卡操作',
+            callback: async () => {
+                try {
+                    const entry = await this.journal.undoLast();
+                    new Notice(`已撤销：${entry.label}`);
+                } catch (error) {
+                    new Notice('撤销失败：' + error.message);
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'open-operation-history',
+            name: '查看主卡操作历史',
+            callback: () => this.uiManager.activateView(JOURNAL_VIEW_TYPE, 'right')
+        });
+
+        this.addCommand({
+            id: 'open-statistics',
+            name: '查看主盒统计',
+            callback: () => this.uiManager.activateView(STATISTICS_VIEW_TYPE, 'right')
+        });
+
+        this.addCommand({
+            id: 'open-retired-ids',
+            name: '查看退役编号',
+            callback: () => this.uiManager.activateView(RETIRED_ID_VIEW_TYPE, 'right')
+        });
+
+        // 知识树 Canvas
+        this.addCanvasCommand('reset-knowledge-tree-layout', '重置知识树布局', '重置知识树布局失败：',
+            (file) => this.canvasManager.resetKnowledgeTreeLayout(file));
+        this.addCanvasCommand('switch-knowledge-tree-layout', '切换布局', '切换布局失败：',
+            (file) => this.openLayoutModal(file));
+
+        // 主盒层级视图
+        this.addCommand({
+            id: 'open-hierarchy-view',
+            name: '打开主盒层级',
+            callback: () => this.uiManager.activateHierarchyView()
+        });
+
+        this.addCommand({
+            id: 'open-card-context-view',
+            name: '打开主卡上下文',
+            callback: () => this.uiManager.activateCardContextView()
+        });
+
+        this.addCommand({
+            id: 'reveal-active-card',
+            name: '在主盒层级中定位当前主卡',
+            callback: () => this.uiManager.revealActiveFileInHierarchy()
+        });
+    }
+
+    // 仅在当前文件为主卡时可用的命令
+    private addMainCardCommand(id: string, name: string, errorPrefix: string, action: (file: TFile) => Promise<void>) {
+        this.addCommand({
+            id,
+            name,
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || !this.cardIndex.getEntry(file)) return false;
+                if (!checking) {
+                    action(file).catch((error) => {
+                        new Notice(errorPrefix + error.message);
+                    });
+                }
+                return true;
+            }
+        });
+    }
+
+    // 仅在当前文件为 Canvas 时可用的命令
+    private addCanvasCommand(id: string, name: string, errorPrefix: string, action: (file: TFile) => Promise<void>) {
+        this.addCommand({
+            id,
+            name,
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'canvas') return false;
+                if (!checking) {
+                    action(file).catch((error) => {
+                        new Notice(errorPrefix + error.message);
+                    });
+                }
+                return true;
+            }
+        });
+    }
+
+    // 从当前主卡跳转到目标主卡，没有目标时命令不可用
+    private addNavigationCommand(id: string, name: string, getTarget: (entry: MainCardEntry) => MainCardEntry | undefined) {
+        this.addCommand({
+            id,
+            name,
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                const entry = file ? this.cardIndex.getEntry(file) : undefined;
+                const target = entry ? getTarget(entry) : undefined;
+                if (!target) return false;
+                if (!checking) this.app.workspace.getLeaf(false).openFile(target.file);
+                return true;
+            }
+        });
+    }
+
+    private async openMoveCardModal(file: TFile) {
+        try {
+            const targets = await this.fileManager.getMoveTargets(file);
+            new MoveCardModal(this.app, targets, async (target) => {
+                try {
+                    await this.fileManager.moveCardSubtree(file, target);
+                } catch (error) {
+                    new Notice('移动主卡失败：' + error.message);
+                }
+            }).open();
+        } catch (error) {
+            new Notice('移动主卡失败：' + error.message);
+        }
+    }
+
+    // 选择归档位置：作为某张主卡的子主卡，或放在某张主卡之后
+    private openArchiveModal(file: TFile) {
+        const targets: MoveTarget[] = [];
+        this.cardIndex.getEntries().forEach(entry => {
+            targets.push({ mode: 'child', entry });
+            targets.push({ mode: 'after', entry });
         });
-        this.registerEvent(this.app.vault.on('create', () => this.uiManager.patchMainBoxFileItemSortWithRetry()));
-        this.registerEvent(this.app.vault.on('delete', () => this.uiManager.patchMainBoxFileItemSortWithRetry()));
-        this.registerEvent(this.app.vault.on('rename', () => this.uiManager.patchMainBoxFileItemSortWithRetry()));
-        this.registerEvent(this.app.metadataCache.on('changed', () => this.uiManager.patchMainBoxFileItemSortWithRetry()));
+        if (targets.length === 0) {
+            new Notice('归档失败：主盒中还没有主卡');
+            return;
+        }
+        new MoveCardModal(this.app, targets, async (target) => {
+            try {
+                const archived = await this.fileManager.archiveInboxNote(file, target);
+                if (archived) await this.app.workspace.getLeaf(false).openFile(archived);
+            } catch (error) {
+                new Notice('归档失败：' + error.message);
+            }
+        }).open();
+    }
+
+    private openKeywordModal(file: TFile) {
+        new KeywordModal(this.app, this.indexManager.getKeywordNotes(), async (keyword) => {
+            try {
+                const note = await this.indexManager.addToIndex(file, keyword);
+                new Notice(`已添加到索引：${note.basename}`);
+            } catch (error) {
+                new Notice('添加到索引失败：' + error.message);
+            }
+        }).open();
+    }
+
+    private openExportModal(file: TFile) {
+        new ExportFormatModal(this.app, async (format) => {
+            try {
+                const exported = await this.exportManager.exportBranch(file, format);
+                new Notice(`已导出为 ${EXPORT_FORMAT_LABELS[format]}：${exported.path}`);
+            } catch (error) {
+                new Notice('导出分支失败：' + error.message);
+            }
+        }).open();
+    }
+
+    private async openImportParentModal(source: TFile) {
+        try {
+            const items = await this.importManager.parseOutline(source);
+            const targets = this.cardIndex.getBoxes().map(box => ({ box, parent: null }) as ImportTarget)
+                .concat(this.cardIndex.getEntries().map(entry => ({ box: entry.box, parent: entry })));
+            new ImportParentModal(this.app, targets, async (target) => {
+                try {
+                    const plan = this.importManager.planImport(items, target);
+                    const targetLabel = target.parent ? `主卡 ${target.parent.id} ` : ` ${target.box.path} 顶层`;
+                    if (!await new ImportPreviewModal(this.app, plan, targetLabel).confirm()) return;
+                    const files = await this.importManager.importCards(plan, target);
+                    new Notice(`已导入 ${files.length} 张主卡`);
+                    await this.app.workspace.getLeaf(false).openFile(files[0]);
+                } catch (error) {
+                    new Notice('导入大纲失败：' + error.message);
+                }
+            }).open();
+        } catch (error) {
+            new Notice('导入大纲失败：' + error.message);
+        }
+    }
+
+    private async openKnowledgeTreeOptionsModal(canvasFile: TFile) {
+        try {
+            const data = await this.canvasManager.getCanvasData(canvasFile);
+            if (!data.meta?.rootCardId) throw new Error('当前 Canvas 不是知识树');
+            new KnowledgeTreeOptionsModal(this.app, data.meta.filter ?? {}, data.meta.crossLinks, async (filter, crossLinks) => {
+                try {
+                    await this.canvasManager.setKnowledgeTreeOptions(canvasFile, filter, crossLinks);
+                } catch (error) {
+                    new Notice('保存知识树选项失败：' + error.message);
+                }
+            }).open();
+        } catch (error) {
+            new Notice('打开知识树选项失败：' + error.message);
+        }
+    }
+
+    private async openLayoutModal(canvasFile: TFile) {
+        try {
+            const data = await this.canvasManager.getCanvasData(canvasFile);
+            if (!data.meta?.rootCardId) throw new Error('当前 Canvas 不是知识树');
+            const currentType = this.canvasManager.getLayoutOptions(data).type;
+            new LayoutSuggestModal(this.app, currentType, async (type) => {
+                try {
+                    await this.canvasManager.setKnowledgeTreeLayout(canvasFile, type);
+                } catch (error) {
+                    new Notice('切换布局失败：' + error.message);
+                }
+            }).open();
+        } catch (error) {
+            new Notice('切换布局失败：' + error.message);
+        }
+    }
+
+    private async activateIdCheckView() {
+        const isOpen = this.app.workspace.getLeavesOfType(ID_CHECK_VIEW_TYPE).length > 0;
+        const leaf = await this.uiManager.activateView(ID_CHECK_VIEW_TYPE, 'right');
+        // 新打开的视图会在 onOpen 中自行检查
+        if (isOpen && leaf && leaf.view instanceof IdCheckView) {
+            await leaf.view.refresh();
+        }
     }
 
     onunload() {
@@ -151,12 +606,38 @@ export class ZettelkastenPlugin extends Plugin {
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+        // 嵌套的布局设置需要单独合并，避免缺少新增的默认项
+        this.settings.canvasLayout = Object.assign({}, DEFAULT_SETTINGS.canvasLayout, data?.canvasLayout);
+
+        // 旧版本只有一个主盒，迁移为主盒列表
+        if (!Array.isArray(data?.mainBoxes)) {
+            this.settings.mainBoxes = [{
+                ...DEFAULT_MAIN_BOX,
+                path: data?.mainBoxPath ?? DEFAULT_MAIN_BOX.path,
+                idProperty: data?.mainCardIdProperty ?? DEFAULT_MAIN_BOX.idProperty,
+                canvasPath: data?.canvasPath ?? DEFAULT_MAIN_BOX.canvasPath
+            }];
+        }
+        this.settings.retiredIds = Array.isArray(data?.retiredIds) ? data.retiredIds : [];
+        this.settings.journal = Array.isArray(data?.journal) ? data.journal : [];
+
+        const legacy = this.settings as Partial<Record<'mainBoxPath' | 'mainCardIdProperty' | 'canvasPath', string>>;
+        delete legacy.mainBoxPath;
+        delete legacy.mainCardIdProperty;
+        delete legacy.canvasPath;
     }
 
     async saveSettings() {
         await this.saveData(this.settings);
     }
+
+    // 按设置切换编号方案，排序、创建和知识树层级都通过 MainCardIdHelper 使用它
+    applyIdScheme() {
+        const { idScheme, idStep, topLevelIdWidth } = this.settings;
+        MainCardIdHelper.useScheme(createIdScheme(idScheme, idStep, topLevelIdWidth));
+    }
 }
 
 export default ZettelkastenPlugin; 
\ No newline at end of file
@@ -1,9 +1,17 @@
-import { App, TFile, TFolder, Notice } from 'obsidian';
-import { CanvasData, CanvasNode, CanvasEdge } from '@/types';
+import { App, TFile, TFolder, Notice, getAllTags } from 'obsidian';
+import { CanvasData, CanvasNode, CanvasEdge, CanvasLayoutOptions, CanvasLayoutType, IdChange, KnowledgeTreeFilter, CrossLinkOptions, MainBoxConfig } from '@/types';
 import { ZettelkastenPlugin } from '@/main';
 import { MainCardIdHelper } from '@/modules/id-helper';
+import { TreeNode, applyLayout, LAYOUT_EDGE_SIDES } from '@/modules/tree-layout';
 
 export class CanvasManager {
+    // 已创建但元数据尚未解析的主卡，解析完成后再更新知识树
+    private pendingCreated: Set<TFile> = new Set();
+    // 批量修改 ID 时暂停事件驱动的同步，由批量操作结束后统一刷新
+    private syncSuspended = 0;
+    // 串行执行知识树更新，避免并发读写同一个 Canvas 文件
+    private syncQueue: Promise<void> = Promise.resolve();
+
     constructor(private plugin: ZettelkastenPlugin) {}
 
     async getCanvasData(file: TFile): Promise<CanvasData> {
@@ -11,8 +19,14 @@ export class CanvasManager {
         return JSON.parse(content);
     }
 
-    async saveCanvasData(file: TFile, data: CanvasData): Promise<void> {
-        await this.plugin.app.vault.modify(file, JSON.stringify(data, null, 2));
+    // journaled 只用于用户直接修改知识树的操作；同步队列中的改写不写入操作日志，撤销后统一重新生成知识树
+    async saveCanvasData(file: TFile, data: CanvasData, journaled = false): Promise<void> {
+        const content = JSON.stringify(data, null, 2);
+        if (journaled) {
+            await this.plugin.journal.modify(file, content);
+        } else {
+            await this.plugin.app.vault.modify(file, content);
+        }
     }
 
     async getCanvasRootCardId(file: TFile): Promise<string | undefined> {
@@ -20,6 +34,46 @@ export class CanvasManager {
         return data.meta?.rootCardId;
     }
 
+    // 知识树的根主卡 ID 和所属主盒，不是知识树时返回 null
+    async getCanvasRoot(file: TFile): Promise<{ rootCardId: string; box: MainBoxConfig } | null> {
+        const data = await this.getCanvasData(file);
+        const rootCardId = data.meta?.rootCardId;
+        const box = this.getCanvasBox(file, data);
+        return rootCardId && box ? { rootCardId, box } : null;
+    }
+
+    private getCanvasBox(file: TFile, data: CanvasData): MainBoxConfig | undefined {
+        const boxes = this.plugin.cardIndex.getBoxes();
+        return boxes.find(box => box.path === data.meta?.mainBoxPath)
+            ?? this.plugin.cardIndex.getBoxForCanvas(file)
+            ?? boxes[0];
+    }
+
+    // 主卡 ID 变化是否发生在指定主盒中
+    private isInBox(file: TFile, box: MainBoxConfig): boolean {
+        return this.plugin.cardIndex.getBoxForFile(file)?.path === box.path;
+    }
+
+    // 根主卡在所属主盒中已不存在的知识树，用于修改主盒设置后检查
+    async getBrokenKnowledgeTrees(): Promise<TFile[]> {
+        const broken: TFile[] = [];
+        for (const file of this.getCanvasFiles()) {
+            const root = await this.getCanvasRoot(file);
+            if (root && !this.plugin.cardIndex.getCard(root.box, root.rootCardId)) broken.push(file);
+        }
+        return broken;
+    }
+
+    // 主盒路径修改后，更新知识树中记录的所属主盒
+    async updateBoxPath(oldPath: string, newPath: string): Promise<void> {
+        for (const file of this.getCanvasFiles()) {
+            const data = await this.getCanvasData(file);
+            if (data.meta?.mainBoxPath !== oldPath) continue;
+            data.meta.mainBoxPath = newPath;
+            await this.saveCanvasData(file, data);
+        }
+    }
+
     async setCanvasRootCardId(file: TFile, rootCardId: string): Promise<void> {
         const data = await this.getCanvasData(file);
         if (!data.meta) {
@@ -30,16 +84,22 @@ export class CanvasManager {
     }
 
     async createKnowledgeTreeCanvas(rootFile: TFile): Promise<void> {
-        // 确保 Canvas 目录存在
-        const canvasFolder = this.plugin.app.vault.getAbstractFileByPath(this.plugin.settings.canvasPath);
+        await this.plugin.journal.record(`创建知识树 ${rootFile.basename}`, () => this.writeKnowledgeTreeCanvas(rootFile));
+    }
+
+    private async writeKnowledgeTreeCanvas(rootFile: TFile): Promise<void> {
+        const box = this.plugin.cardIndex.getBoxForFile(rootFile);
+        if (!box) throw new Error('当前文件不在主盒中');
+
+        // 确保主盒的 Canvas 目录存在
+        const canvasFolder = this.plugin.app.vault.getAbstractFileByPath(box.canvasPath);
         if (!canvasFolder) {
-            await this.plugin.app.vault.createFolder(this.plugin.settings.canvasPath);
+            await this.plugin.app.vault.createFolder(box.canvasPath);
         }
 
         // 创建 Canvas 文件
-        const canvasFileName = `${rootFile.basename}知识树.canvas`;
-        const canvasPath = `${this.plugin.settings.canvasPath}/${canvasFileName}`;
-        
+        const canvasPath = this.getKnowledgeTreeCanvasPath(rootFile, box);
+
         // 检查文件是否已存在
         const existingFile = this.plugin.app.vault.getAbstractFileByPath(canvasPath);
         if (existingFile) {
@@ -64,9 +124,13 @@ export class CanvasManager {
             ],
             edges: [],
             meta: {
-                rootCardId: rootCardId
+                rootCardId: rootCardId,
+                mainBoxPath: box.path,
+                managedNodeIds: ["root"],
+                managedEdgeIds: []
             }
         }, null, 2));
+        this.plugin.journal.recordCreate(canvasFile);
 
         // 打开新创建的 Canvas
         const leaf = this.plugin.app.workspace.getLeaf('tab');
@@ -76,41 +140,282 @@ export class CanvasManager {
         await this.updateKnowledgeTreeCanvas(canvasFile);
     }
 
-    async updateKnowledgeTreeCanvas(canvasFile: TFile): Promise<void> {
+    // 已有知识树时直接打开，否则新建
+    async openKnowledgeTreeCanvas(rootFile: TFile): Promise<void> {
+        const box = this.plugin.cardIndex.getBoxForFile(rootFile);
+        if (!box) throw new Error('当前文件不在主盒中');
+
+        const existingFile = this.plugin.app.vault.getAbstractFileByPath(this.getKnowledgeTreeCanvasPath(rootFile, box));
+        if (existingFile instanceof TFile) {
+            await this.plugin.app.workspace.getLeaf('tab').openFile(existingFile);
+            return;
+        }
+        await this.createKnowledgeTreeCanvas(rootFile);
+    }
+
+    private getKnowledgeTreeCanvasPath(rootFile: TFile, box: MainBoxConfig): string {
+        return `${box.canvasPath}/${rootFile.basename}知识树.canvas`;
+    }
+
+    async updateKnowledgeTreeCanvas(canvasFile: TFile, journaled = false): Promise<void> {
         const data = await this.getCanvasData(canvasFile);
         const rootCardId = data.meta?.rootCardId;
-        if (!rootCardId) return;
+        const box = this.getCanvasBox(canvasFile, data);
+        if (!rootCardId || !box) return;
 
-        // 获取所有相关主卡
-        const allCards = await this.plugin.fileManager.getSortedMainCards();
-        const relatedCards = allCards.filter((card) => {
-            const cardId = this.plugin.fileManager.getCardId(card);
-            return cardId === rootCardId || cardId.startsWith(rootCardId + '-');
+        // 计算节点布局
+        const { nodes, edges } = await this.calculateNodePositions(data, box, rootCardId, this.getLayoutOptions(data));
+
+        // 合并到 Canvas 数据，保留用户手动添加和修改的内容
+        this.mergeGeneratedElements(data, nodes, edges);
+        await this.saveCanvasData(canvasFile, data, journaled);
+    }
+
+    // 丢弃用户移动和缩放过的位置尺寸，按自动布局重新排列
+    async resetKnowledgeTreeLayout(canvasFile: TFile): Promise<void> {
+        const data = await this.getCanvasData(canvasFile);
+        if (!data.meta?.rootCardId) throw new Error('当前 Canvas 不是知识树');
+        delete data.meta.nodeLayout;
+        await this.plugin.journal.record(`重置知识树布局 ${canvasFile.basename}`, async () => {
+            await this.saveCanvasData(canvasFile, data, true);
+            await this.updateKnowledgeTreeCanvas(canvasFile, true);
         });
+    }
 
-        // 计算节点布局
-        const { nodes, edges } = await this.calculateNodePositions(relatedCards, rootCardId);
+    // 只替换插件维护的节点和边：保留用户添加的元素、颜色等属性，以及用户移动或缩放过的位置和尺寸
+    private mergeGeneratedElements(data: CanvasData, nodes: CanvasNode[], edges: CanvasEdge[]) {
+        const meta = data.meta ?? (data.meta = {});
+        // 旧版 Canvas 没有记录维护列表：主盒中的文件节点和 edge- 开头的边由插件生成
+        const managedNodeIds = new Set(meta.managedNodeIds ??
+            data.nodes.filter(node => node.type === 'file' && this.plugin.cardIndex.getBoxForPath(String(node.file))).map(node => node.id));
+        const managedEdgeIds = new Set(meta.managedEdgeIds ??
+            data.edges.filter(edge => edge.id.startsWith('edge-')).map(edge => edge.id));
+        const previousLayout = meta.nodeLayout ?? {};
+
+        const existingNodes = new Map(data.nodes.map(node => [node.id, node] as [string, CanvasNode]));
+        const existingEdges = new Map(data.edges.map(edge => [edge.id, edge] as [string, CanvasEdge]));
+        const generatedNodeIds = new Set(nodes.map(node => node.id));
+        const generatedEdgeIds = new Set(edges.map(edge => edge.id));
+
+        const mergedNodes: CanvasNode[] = nodes.map(node => {
+            const existing = existingNodes.get(node.id);
+            if (!existing) return node;
+            // 生成的颜色（如知识树外的主卡）只作为默认值，保留用户设置的颜色
+            const merged: CanvasNode = { ...existing, ...node, color: existing.color ?? node.color };
+            const previous = previousLayout[node.id];
+            if (previous && (existing.x !== previous.x || existing.y !== previous.y)) {
+                merged.x = existing.x;
+                merged.y = existing.y;
+            }
+            if (previous && (existing.width !== previous.width || existing.height !== previous.height)) {
+                merged.width = existing.width;
+                merged.height = existing.height;
+            }
+            return merged;
+        });
+        const userNodes = data.nodes.filter(node => !managedNodeIds.has(node.id) && !generatedNodeIds.has(node.id));
+        data.nodes = mergedNodes.concat(userNodes);
 
-        // 更新 Canvas 数据
-        data.nodes = nodes;
-        data.edges = edges;
-        await this.saveCanvasData(canvasFile, data);
+        const nodeIds = new Set(data.nodes.map(node => node.id));
+        const mergedEdges = edges.map((edge): CanvasEdge => {
+            const existing = existingEdges.get(edge.id);
+            return { ...existing, ...edge, color: existing?.color ?? edge.color };
+        });
+        const userEdges = data.edges.filter(edge =>
+            !managedEdgeIds.has(edge.id) && !generatedEdgeIds.has(edge.id) &&
+            nodeIds.has(edge.fromNode) && nodeIds.has(edge.toNode)
+        );
+        data.edges = mergedEdges.concat(userEdges);
+
+        meta.managedNodeIds = nodes.map(node => node.id);
+        meta.managedEdgeIds = edges.map(edge => edge.id);
+        meta.nodeLayout = {};
+        for (const node of nodes) {
+            meta.nodeLayout[node.id] = { x: node.x, y: node.y, width: node.width, height: node.height };
+        }
     }
 
     async updateAllKnowledgeTrees(newCard: TFile): Promise<void> {
-        const canvasFolder = this.plugin.app.vault.getAbstractFileByPath(this.plugin.settings.canvasPath);
-        if (!(canvasFolder instanceof TFolder)) return;
+        const cardId = this.plugin.cardIndex.getId(newCard);
+        for (const file of this.getCanvasFiles()) {
+            const root = await this.getCanvasRoot(file);
+            if (!root || !this.isInBox(newCard, root.box)) continue;
+
+            if (MainCardIdHelper.isInSubtree(cardId, root.rootCardId)) {
+                await this.updateKnowledgeTreeCanvas(file);
+            }
+        }
+    }
 
-        for (const file of canvasFolder.children) {
-            if (!(file instanceof TFile) || !file.extension.endsWith('canvas')) continue;
+    // 重新生成所有知识树，返回刷新的 Canvas 数量
+    async refreshAllKnowledgeTrees(): Promise<number> {
+        let count = 0;
+        for (const file of this.getCanvasFiles()) {
+            if (!(await this.getCanvasRoot(file))) continue;
+            await this.enqueue(() => this.updateKnowledgeTreeCanvas(file));
+            count++;
+        }
+        return count;
+    }
 
-            const rootCardId = await this.getCanvasRootCardId(file);
-            if (!rootCardId) continue;
+    // 事件处理：主盒中的主卡被创建、删除、重命名或修改 ID 属性
+    // 知识树和结构笔记共用这套同步逻辑
+    handleCardCreated(file: TFile) {
+        this.pendingCreated.add(file);
+    }
 
-            const cardId = this.plugin.fileManager.getCardId(newCard);
-            if (cardId === rootCardId || cardId.startsWith(rootCardId + '-')) {
-                await this.updateKnowledgeTreeCanvas(file);
+    handleCardDeleted(file: TFile, cardId: string) {
+        this.pendingCreated.delete(file);
+        if (this.syncSuspended > 0) return;
+        this.syncCardChanges([{ file, oldId: cardId, newId: cardId }],
+            () => this.updateAllKnowledgeTreesOnDelete(file, cardId));
+    }
+
+    // oldId 为 undefined 表示文件从主盒外移入
+    handleCardRenamed(file: TFile, oldId: string | undefined) {
+        if (this.syncSuspended > 0) return;
+        if (!this.plugin.cardIndex.getEntry(file)) {
+            // 移出主盒，按删除处理
+            if (oldId !== undefined) this.handleCardDeleted(file, oldId);
+            return;
+        }
+        if (oldId === undefined) {
+            this.syncCreatedCard(file);
+            return;
+        }
+        const changes = [{ file, oldId, newId: this.plugin.cardIndex.getId(file) }];
+        this.syncCardChanges(changes, () => this.updateKnowledgeTreesOnIdChanges(changes));
+    }
+
+    // oldId 只有在主卡 ID 变化时才有值
+    handleCardMetadataChanged(file: TFile, oldId: string | undefined) {
+        if (this.pendingCreated.delete(file)) {
+            this.syncCreatedCard(file);
+            return;
+        }
+        if (this.syncSuspended > 0 || oldId === undefined) return;
+        const changes = [{ file, oldId, newId: this.plugin.cardIndex.getId(file) }];
+        this.syncCardChanges(changes, () => this.updateKnowledgeTreesOnIdChanges(changes));
+    }
+
+    // 元数据全部解析完成后，处理仍未收到 changed 事件的新主卡
+    flushPendingCreated() {
+        const files = Array.from(this.pendingCreated);
+        this.pendingCreated.clear();
+        for (const file of files) {
+            this.syncCreatedCard(file);
+        }
+    }
+
+    async withSyncSuspended<T>(task: () => Promise<T>): Promise<T> {
+        this.syncSuspended++;
+        try {
+            return await task();
+        } finally {
+            this.syncSuspended--;
+        }
+    }
+
+    // 批量修改 ID 结束后统一刷新知识树
+    refreshAfterIdChanges(changes: IdChange[]): Promise<void> {
+        return this.syncCardChanges(changes, () => this.updateKnowledgeTreesOnIdChanges(changes));
+    }
+
+    private syncCreatedCard(file: TFile) {
+        const cardId = this.plugin.cardIndex.getId(file);
+        this.syncCardChanges([{ file, oldId: cardId, newId: cardId }], () => this.updateAllKnowledgeTrees(file));
+    }
+
+    // 先更新知识树，再更新结构笔记
+    private syncCardChanges(changes: IdChange[], updateCanvases: () => Promise<void>): Promise<void> {
+        return this.enqueue(async () => {
+            await updateCanvases();
+            await this.plugin.structureNoteManager.updateStructureNotesOnIdChanges(changes);
+        });
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        this.syncQueue = this.syncQueue.then(task).catch(error => {
+            console.error('[ZK] 同步知识树失败', error);
+        });
+        return this.syncQueue;
+    }
+
+    // 所有主盒的 Canvas 文件夹中的 Canvas 文件，多个主盒可以共用一个文件夹
+    private getCanvasFiles(): TFile[] {
+        const canvasPaths = new Set(this.plugin.cardIndex.getBoxes().map(box => box.canvasPath));
+        const files: TFile[] = [];
+        for (const canvasPath of canvasPaths) {
+            const canvasFolder = this.plugin.app.vault.getAbstractFileByPath(canvasPath);
+            if (!(canvasFolder instanceof TFolder)) continue;
+            files.push(...canvasFolder.children.filter((file): file is TFile => file instanceof TFile && file.extension === 'canvas'));
+        }
+        return files;
+    }
+
+    // 主卡 ID 批量变化后（移动、重排），同步根主卡 ID 并刷新受影响的知识树
+    async updateKnowledgeTreesOnIdChanges(changes: IdChange[]): Promise<void> {
+        for (const file of this.getCanvasFiles()) {
+            const root = await this.getCanvasRoot(file);
+            if (!root) continue;
+            const boxChanges = changes.filter(change => this.isInBox(change.file, root.box));
+            let rootCardId = root.rootCardId;
+
+            const rootChange = boxChanges.find(({ oldId }) => oldId === rootCardId);
+            if (rootChange) rootCardId = rootChange.newId;
+
+            const affected = boxChanges.some(({ oldId, newId }) =>
+                MainCardIdHelper.isInSubtree(oldId, rootCardId as string) ||
+                MainCardIdHelper.isInSubtree(newId, rootCardId as string)
+            );
+            if (!rootChange && !affected) continue;
+
+            // 先把以旧 ID 命名的节点换成新 ID，再重新生成，保留用户调整过的位置和颜色
+            const idMap = new Map(boxChanges.filter(({ oldId, newId }) => oldId !== newId).map(({ oldId, newId }) => [oldId, newId]));
+            if (rootChange || idMap.size > 0) {
+                const data = await this.getCanvasData(file);
+                const meta = data.meta ?? (data.meta = {});
+                meta.rootCardId = rootCardId;
+                this.remapCardIds(data, idMap);
+                await this.saveCanvasData(file, data);
             }
+            await this.updateKnowledgeTreeCanvas(file);
+        }
+    }
+
+    // 知识树中以主卡 ID 命名的节点（包括 more- 和 stub- 节点）、由节点 ID 组成的连线 ID、上一次生成的布局和折叠的分支
+    private remapCardIds(data: CanvasData, idMap: Map<string, string>) {
+        if (idMap.size === 0) return;
+        const mapNodeId = (id: string): string => {
+            const [, prefix, cardId] = id.match(/^(more-|stub-)?(.*)$/) as RegExpMatchArray;
+            const newId = idMap.get(cardId);
+            return newId === undefined ? id : (prefix ?? '') + newId;
+        };
+        const edgeIdMap = new Map<string, string>();
+        for (const edge of data.edges) {
+            const prefix = ['edge', 'link'].find(prefix => edge.id === `${prefix}-${edge.fromNode}-${edge.toNode}`);
+            const fromNode = mapNodeId(edge.fromNode);
+            const toNode = mapNodeId(edge.toNode);
+            if (prefix) edgeIdMap.set(edge.id, `${prefix}-${fromNode}-${toNode}`);
+            edge.id = edgeIdMap.get(edge.id) ?? edge.id;
+            edge.fromNode = fromNode;
+            edge.toNode = toNode;
+        }
+        data.nodes.forEach(node => node.id = mapNodeId(node.id));
+
+        const meta = data.meta;
+        if (!meta) return;
+        meta.managedNodeIds = meta.managedNodeIds?.map(mapNodeId);
+        meta.managedEdgeIds = meta.managedEdgeIds?.map(id => edgeIdMap.get(id) ?? id);
+        if (meta.nodeLayout) {
+            const nodeLayout = meta.nodeLayout;
+            meta.nodeLayout = {};
+            for (const id of Object.keys(nodeLayout)) {
+                meta.nodeLayout[mapNodeId(id)] = nodeLayout[id];
+            }
+        }
+        if (meta.filter?.collapsedIds) {
+            meta.filter.collapsedIds = meta.filter.collapsedIds.map(id => idMap.get(id) ?? id);
         }
     }
 
@@ -128,17 +433,14 @@ export class CanvasManager {
         await this.saveCanvasData(canvasFile, data);
     }
 
-    async updateAllKnowledgeTreesOnDelete(deletedFile: TFile): Promise<void> {
-        const canvasFolder = this.plugin.app.vault.getAbstractFileByPath(this.plugin.settings.canvasPath);
-        if (!(canvasFolder instanceof TFolder)) return;
-
-        for (const file of canvasFolder.children) {
-            if (!(file instanceof TFile) || !file.extension.endsWith('canvas')) continue;
+    async updateAllKnowledgeTreesOnDelete(deletedFile: TFile, deletedCardId?: string): Promise<void> {
+        // 删除后元数据可能已不可用，优先使用索引中记录的 ID
+        const cardId = deletedCardId ?? this.plugin.fileManager.getCardId(deletedFile);
+        for (const file of this.getCanvasFiles()) {
+            const root = await this.getCanvasRoot(file);
+            if (!root || !this.isInBox(deletedFile, root.box)) continue;
+            const { rootCardId } = root;
 
-            const rootCardId = await this.getCanvasRootCardId(file);
-            if (!rootCardId) continue;
-
-            const cardId = this.plugin.fileManager.getCardId(deletedFile);
             // 如果删除的是根节点，提示用户
             if (cardId === rootCardId) {
                 new Notice(`警告：已删除知识树"${file.basename}"的根节点`);
@@ -146,7 +448,7 @@ export class CanvasManager {
             }
 
             // 如果删除的是子节点，从知识树中移除
-            if (cardId.startsWith(rootCardId + '-')) {
+            if (MainCardIdHelper.isInSubtree(cardId, rootCardId)) {
                 await this.removeNodeFromKnowledgeTree(file, cardId);
                 // 重新布局剩余节点
                 await this.updateKnowledgeTreeCanvas(file);
@@ -154,120 +456,253 @@ export class CanvasManager {
         }
     }
 
-    private async calculateNodePositions(relatedCards: TFile[], rootCardId: string): Promise<{ nodes: CanvasNode[], edges: CanvasEdge[] }> {
+    async setKnowledgeTreeOptions(canvasFile: TFile, filter: KnowledgeTreeFilter, crossLinks: CrossLinkOptions): Promise<void> {
+        const data = await this.getCanvasData(canvasFile);
+        if (!data.meta?.rootCardId) throw new Error('当前 Canvas 不是知识树');
+        data.meta.filter = filter;
+        data.meta.crossLinks = crossLinks;
+        await this.plugin.journal.record(`修改知识树选项 ${canvasFile.basename}`, async () => {
+            await this.saveCanvasData(canvasFile, data, true);
+            await this.updateKnowledgeTreeCanvas(canvasFile, true);
+        });
+    }
+
+    // 合并全局默认布局和 Canvas 自身的布局设置
+    getLayoutOptions(data: CanvasData): CanvasLayoutOptions {
+        return { ...this.plugin.settings.canvasLayout, ...data.meta?.layout };
+    }
+
+    // 切换知识树布局，同时丢弃旧布局下手动调整过的位置
+    async setKnowledgeTreeLayout(canvasFile: TFile, type: CanvasLayoutType): Promise<void> {
+        const data = await this.getCanvasData(canvasFile);
+        if (!data.meta?.rootCardId) throw new Error('当前 Canvas 不是知识树');
+        data.meta.layout = { ...data.meta.layout, type };
+        delete data.meta.nodeLayout;
+        await this.plugin.journal.record(`切换知识树布局 ${canvasFile.basename}`, async () => {
+            await this.saveCanvasData(canvasFile, data, true);
+            await this.updateKnowledgeTreeCanvas(canvasFile, true);
+        });
+    }
+
+    // 主卡是否带有任一标签或满足任一属性条件
+    private matchesFilter(file: TFile, tags: string[] | undefined, properties: string[] | undefined): boolean {
+        const cache = this.plugin.app.metadataCache.getFileCache(file);
+        if (!cache) return false;
+
+        if (tags && tags.length > 0) {
+            const fileTags = (getAllTags(cache) ?? []).map(tag => tag.replace(/^#/, ''));
+            if (tags.some(tag => fileTags.includes(tag.replace(/^#/, '')))) return true;
+        }
+
+        const frontmatter = cache.frontmatter;
+        if (properties && properties.length > 0 && frontmatter) {
+            return properties.some(condition => {
+                const [key, ...rest] = condition.split('=');
+                const value = frontmatter[key.trim()];
+                if (value === undefined || value === null) return false;
+                if (rest.length === 0) return true;
+                const expected = rest.join('=').trim();
+                return Array.isArray(value) ? value.map(String).includes(expected) : String(value) === expected;
+            });
+        }
+        return false;
+    }
+
+    private async calculateNodePositions(data: CanvasData, box: MainBoxConfig, rootCardId: string, options: CanvasLayoutOptions): Promise<{ nodes: CanvasNode[], edges: CanvasEdge[] }> {
         const nodes: CanvasNode[] = [];
         const edges: CanvasEdge[] = [];
+        const cardIndex = this.plugin.cardIndex;
 
-        // 布局参数
-        const LEVEL_WIDTH = 720;
-        const NODE_HEIGHT = 300;
-        const NODE_WIDTH = 480;
-        const MIN_VERTICAL_GAP = 55;
-
-        // 保存 this 的引用
-        const self = this;
-
-        // 1. 构建树结构
-        interface TreeNode {
-            id: string;
-            file: TFile;
-            children: TreeNode[];
-            parent: TreeNode | null;
-            level: number;
-            x: number;
-            y: number;
-        }
+        // 1. 构建树结构，按筛选条件剪枝，超出深度或折叠的分支替换为占位节点
+        const filter = data.meta?.filter ?? {};
+        const collapsedIds = new Set(filter.collapsedIds ?? []);
+        const hasIncludeFilter = (filter.includeTags?.length ?? 0) + (filter.includeProperties?.length ?? 0) > 0;
         const nodeMapById = new Map<string, TreeNode>();
-        function buildTree(cardId: string, file: TFile, parent: TreeNode | null, level: number): TreeNode {
+        const buildTree = (cardId: string, file: TFile, parent: TreeNode | null, level: number): TreeNode | null => {
+            const isRoot = parent === null;
+            if (!isRoot && this.matchesFilter(file, filter.excludeTags, filter.excludeProperties)) return null;
+
             const node: TreeNode = {
                 id: cardId,
                 file,
                 children: [],
                 parent,
                 level,
-                x: level * LEVEL_WIDTH,
+                x: 0,
                 y: 0
             };
-            nodeMapById.set(cardId, node);
-            // 查找所有直接子节点
-            const childCards = relatedCards.filter(card => {
-                const cardId = self.plugin.fileManager.getCardId(card);
-                const parentCardId = self.plugin.fileManager.getCardId(file); // 获取父节点的ID
-
-                // 确保 cardId 是 parentCardId 的直接子节点
-                // 子节点的 ID 应该以 parentCardId + '-' 开头，并且比 parentCardId 多一个分段
-                if (!cardId.startsWith(parentCardId + '-')) return false;
-                const parentParts = parentCardId.split('-');
-                const childParts = cardId.split('-');
-                return childParts.length === parentParts.length + 1;
-            });
-            node.children = childCards
-                .map(card => buildTree(self.plugin.fileManager.getCardId(card), card, node, level + 1))
-                .sort((a, b) => MainCardIdHelper.compareIds(a.id, b.id));
-            return node;
-        }
-        const rootFile = relatedCards.find(card => self.plugin.fileManager.getCardId(card) === rootCardId);
-        if (!rootFile) return { nodes: [], edges: [] };
-        // @ts-ignore
-        const root = buildTree(rootCardId, rootFile, null, 0);
-
-        // 2. 紧凑树形布局算法：同层节点紧凑排列，分支可重叠，父节点居中
-        const nextYByLevel: number[] = [];
-        function layoutTree(node: TreeNode, level: number) {
-            if (nextYByLevel[level] === undefined) {
-                nextYByLevel[level] = 0;
+            // 直接子节点由索引按编号排序给出
+            node.children = cardIndex.getChildren(box, cardId)
+                .map(child => buildTree(child.id, child.file, node, level + 1))
+                .filter((child): child is TreeNode => child !== null);
+
+            // 设置了包含条件时，保留匹配的主卡以及通往它们的路径
+            if (!isRoot && hasIncludeFilter && node.children.length === 0 &&
+                !this.matchesFilter(file, filter.includeTags, filter.includeProperties)) {
+                return null;
             }
 
-            if (node.children.length === 0) {
-                node.y = nextYByLevel[level];
-                nextYByLevel[level] += NODE_HEIGHT + MIN_VERTICAL_GAP;
-            } else {
-                for (const child of node.children) {
-                    layoutTree(child, level + 1);
-                }
-                const minY = Math.min(...node.children.map(c => c.y));
-                const maxY = Math.max(...node.children.map(c => c.y));
-                node.y = (minY + maxY) / 2;
-                if (node.y < nextYByLevel[level]) { // 如果需要下移节点，则下移所有子孙节点
-                    const yOffset = nextYByLevel[level] - node.y;
-                    function shiftChildren(children: TreeNode[], level: number, yOffset: number) {
-                        for (const child of children) {
-                            child.y += yOffset;
-                            if (child.children.length > 0) {
-                                shiftChildren(child.children, level + 1, yOffset);
-                            }
-                        }
-                        nextYByLevel[level] += yOffset;
-                    }
-                    shiftChildren(node.children, level+1, yOffset);
-                    node.y = nextYByLevel[level];
-                }
-                nextYByLevel[level] = Math.max(nextYByLevel[level], node.y + NODE_HEIGHT + MIN_VERTICAL_GAP);
+            const reachedMaxDepth = filter.maxDepth !== undefined && level >= filter.maxDepth;
+            if (node.children.length > 0 && (reachedMaxDepth || collapsedIds.has(cardId))) {
+                const hiddenCount = countNodes(node.children);
+                node.children = [{
+                    id: `more-${cardId}`,
+                    file: null,
+                    hiddenCount,
+                    children: [],
+                    parent: node,
+                    level: level + 1,
+                    x: 0,
+                    y: 0
+                }];
             }
-        }
-        layoutTree(root, 0);
+            return node;
+        };
+        const countNodes = (children: TreeNode[]): number =>
+            children.reduce((sum, child) => sum + 1 + countNodes(child.children), 0);
+        const collectNodes = (node: TreeNode) => {
+            nodeMapById.set(node.id, node);
+            node.children.forEach(collectNodes);
+        };
+
+        const rootEntry = cardIndex.getCard(box, rootCardId);
+        if (!rootEntry) return { nodes: [], edges: [] };
+        const root = buildTree(rootCardId, rootEntry.file, null, 0) as TreeNode;
+        collectNodes(root);
+
+        // 2. 按所选布局计算坐标
+        applyLayout(root, options);
+        const { fromSide, toSide } = LAYOUT_EDGE_SIDES[options.type];
 
         // 3. 生成节点和边
         nodeMapById.forEach((node, id) => {
-            nodes.push({
-                id: node.id,
-                type: "file",
-                file: node.file.path,
-                x: node.x,
-                y: node.y,
-                width: NODE_WIDTH,
-                height: NODE_HEIGHT
-            });
+            if (node.file) {
+                nodes.push({
+                    id: node.id,
+                    type: "file",
+                    file: node.file.path,
+                    x: node.x,
+                    y: node.y,
+                    width: options.nodeWidth,
+                    height: options.nodeHeight
+                });
+            } else {
+                nodes.push({
+                    id: node.id,
+                    type: "text",
+                    text: `+${node.hiddenCount}`,
+                    x: node.x,
+                    y: node.y,
+                    width: options.nodeWidth,
+                    height: options.nodeHeight
+                });
+            }
             node.children.forEach(child => {
                 edges.push({
                     id: `edge-${node.id}-${child.id}`,
                     fromNode: node.id,
                     toNode: child.id,
-                    fromSide: "right",
-                    toSide: "left"
+                    fromSide,
+                    toSide
                 });
             });
         });
+
+        // 4. 主卡之间的链接
+        if (data.meta?.crossLinks?.enabled) {
+            this.addCrossLinks(nodes, edges, box, data.meta.crossLinks, options);
+        }
         return { nodes, edges };
     }
-} 
\ No newline at end of file
+
+    // 根据 resolvedLinks 为知识树中的主卡添加链接连线，与层级连线使用不同的颜色和标签
+    private addCrossLinks(nodes: CanvasNode[], edges: CanvasEdge[], box: MainBoxConfig, crossLinks: CrossLinkOptions, options: CanvasLayoutOptions) {
+        const { resolvedLinks } = this.plugin.app.metadataCache;
+        const cardIndex = this.plugin.cardIndex;
+        const nodeByPath = new Map<string, CanvasNode>();
+        for (const node of nodes) {
+            if (node.type === 'file') nodeByPath.set(node.file, node);
+        }
+        const hierarchyPairs = new Set(edges.map(edge => `${edge.fromNode}|${edge.toNode}`));
+
+        // 知识树外的主卡依次排在知识树右侧
+        const stubX = Math.max(...nodes.map(node => node.x)) + options.nodeWidth + options.levelGap;
+        let stubY = Math.min(...nodes.map(node => node.y));
+        const getStubNode = (path: string): CanvasNode | undefined => {
+            if (!crossLinks.showExternal) return undefined;
+            const file = this.plugin.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) return undefined;
+            // 只展示同一主盒中的主卡，其他主盒的 ID 可能与知识树中的重复
+            const entry = cardIndex.getEntry(file);
+            if (!entry || entry.box.path !== box.path) return undefined;
+            const stub: CanvasNode = {
+                id: `stub-${entry.id}`,
+                type: 'file',
+                file: path,
+                x: stubX,
+                y: stubY,
+                width: options.nodeWidth,
+                height: options.nodeHeight,
+                // 默认颜色，用户修改过的颜色和位置在合并时保留
+                color: '5'
+            };
+            stubY += options.nodeHeight + options.siblingGap;
+            nodes.push(stub);
+            nodeByPath.set(path, stub);
+            return stub;
+        };
+
+        const treePaths = new Set(nodeByPath.keys());
+        // 知识树外的笔记指向知识树内主卡的链接，每次生成只遍历一遍 resolvedLinks
+        const incomingByPath = new Map<string, string[]>();
+        if (crossLinks.showExternal) {
+            for (const [fromPath, links] of Object.entries(resolvedLinks)) {
+                if (treePaths.has(fromPath)) continue;
+                for (const toPath of Object.keys(links)) {
+                    if (!treePaths.has(toPath)) continue;
+                    const incoming = incomingByPath.get(toPath);
+                    if (incoming) {
+                        incoming.push(fromPath);
+                    } else {
+                        incomingByPath.set(toPath, [fromPath]);
+                    }
+                }
+            }
+        }
+        for (const sourcePath of treePaths) {
+            const linkedPaths = Object.keys(resolvedLinks[sourcePath] ?? {});
+            const incomingPaths = incomingByPath.get(sourcePath) ?? [];
+
+            const pairs: [string, string][] = linkedPaths.map(path => [sourcePath, path] as [string, string])
+                .concat(incomingPaths.map(path => [path, sourcePath] as [string, string]));
+            for (const [fromPath, toPath] of pairs) {
+                if (fromPath === toPath) continue;
+                const fromNode = nodeByPath.get(fromPath) ?? getStubNode(fromPath);
+                const toNode = nodeByPath.get(toPath) ?? getStubNode(toPath);
+                if (!fromNode || !toNode) continue;
+                if (hierarchyPairs.has(`${fromNode.id}|${toNode.id}`)) continue;
+
+                const id = `link-${fromNode.id}-${toNode.id}`;
+                if (edges.some(edge => edge.id === id)) continue;
+                edges.push({
+                    id,
+                    fromNode: fromNode.id,
+                    toNode: toNode.id,
+                    ...this.getEdgeSides(fromNode, toNode),
+                    color: '4',
+                    label: '链接'
+                });
+            }
+        }
+    }
+
+    // 按两个节点的相对位置选择连线的连接边
+    private getEdgeSides(from: CanvasNode, to: CanvasNode): { fromSide: string; toSide: string } {
+        const dx = (to.x + to.width / 2) - (from.x + from.width / 2);
+        const dy = (to.y + to.height / 2) - (from.y + from.height / 2);
+        if (Math.abs(dx) >= Math.abs(dy)) {
+            return dx >= 0 ? { fromSide: 'right', toSide: 'left' } : { fromSide: 'left', toSide: 'right' };
+        }
+        return dy >= 0 ? { fromSide: 'bottom', toSide: 'top' } : { fromSide: 'top', toSide: 'bottom' };
+    }
+}
@@ -0,0 +1,122 @@
+import { ItemView, TFile, WorkspaceLeaf } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { MainCardEntry } from '@/types';
+import { MainCardIdHelper } from '@/modules/id-helper';
+
+export const CARD_CONTEXT_VIEW_TYPE = 'zettelkasten-card-context';
+
+// 主卡上下文面板：展示当前主卡的祖先路径、相邻兄弟主卡和直接子主卡
+export class CardContextView extends ItemView {
+    // 切换到非主卡（如侧边栏视图）时仍保留上一张主卡
+    private currentFile: TFile | null = null;
+
+    constructor(leaf: WorkspaceLeaf, private plugin: ZettelkastenPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return CARD_CONTEXT_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return '主卡上下文';
+    }
+
+    getIcon(): string {
+        return 'milestone';
+    }
+
+    async onOpen() {
+        this.render();
+    }
+
+    render() {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (activeFile && this.plugin.cardIndex.getEntry(activeFile)) {
+            this.currentFile = activeFile;
+        }
+
+        const container = this.contentEl;
+        container.empty();
+
+        const entry = this.currentFile ? this.plugin.cardIndex.getEntry(this.currentFile) : undefined;
+        if (!entry) {
+            container.createDiv({ cls: 'pane-empty', text: '当前文件不是主卡' });
+            return;
+        }
+
+        this.renderBreadcrumbs(container, entry);
+        this.renderSiblings(container, entry);
+        this.renderChildren(container, entry);
+    }
+
+    // 祖先路径：缺失的祖先只显示 ID
+    private renderBreadcrumbs(container: HTMLElement, entry: MainCardEntry) {
+        const ancestorIds: string[] = [];
+        let parentId = MainCardIdHelper.getParentId(entry.id);
+        while (parentId !== null) {
+            ancestorIds.unshift(parentId);
+            parentId = MainCardIdHelper.getParentId(parentId);
+        }
+
+        const breadcrumbsEl = container.createDiv({ cls: 'view-header-breadcrumb' });
+        for (const ancestorId of ancestorIds) {
+            const ancestor = this.plugin.cardIndex.getCard(entry.box, ancestorId);
+            if (ancestor) {
+                this.createCardLink(breadcrumbsEl, ancestor);
+            } else {
+                breadcrumbsEl.createSpan({ cls: 'mod-muted', text: ancestorId });
+            }
+            breadcrumbsEl.createSpan({ cls: 'view-header-breadcrumb-separator', text: ' / ' });
+        }
+        breadcrumbsEl.createEl('strong', { text: this.getLabel(entry) });
+    }
+
+    private renderSiblings(container: HTMLElement, entry: MainCardEntry) {
+        const siblings = this.plugin.cardIndex.getSiblings(entry.box, entry.id);
+        const index = siblings.indexOf(entry);
+        const previous = index > 0 ? siblings[index - 1] : undefined;
+        const next = siblings[index + 1];
+
+        container.createEl('h4', { text: '兄弟主卡' });
+        const siblingsEl = container.createDiv();
+        const previousEl = siblingsEl.createDiv({ text: '← ' });
+        if (previous) {
+            this.createCardLink(previousEl, previous);
+        } else {
+            previousEl.createSpan({ cls: 'mod-muted', text: '无' });
+        }
+        const nextEl = siblingsEl.createDiv({ text: '→ ' });
+        if (next) {
+            this.createCardLink(nextEl, next);
+        } else {
+            nextEl.createSpan({ cls: 'mod-muted', text: '无' });
+        }
+    }
+
+    private renderChildren(container: HTMLElement, entry: MainCardEntry) {
+        const children = this.plugin.cardIndex.getChildren(entry.box, entry.id);
+        container.createEl('h4', { text: `子主卡（${children.length}）` });
+        if (children.length === 0) {
+            container.createDiv({ cls: 'mod-muted', text: '无' });
+            return;
+        }
+        const listEl = container.createEl('ul');
+        for (const child of children) {
+            this.createCardLink(listEl.createEl('li'), child);
+        }
+    }
+
+    private createCardLink(parentEl: HTMLElement, entry: MainCardEntry) {
+        const linkEl = parentEl.createEl('a', { cls: 'internal-link', text: this.getLabel(entry) });
+        linkEl.addEventListener('click', (evt) => {
+            evt.preventDefault();
+            this.app.workspace.getLeaf(evt.ctrlKey || evt.metaKey).openFile(entry.file);
+        });
+    }
+
+    private getLabel(entry: MainCardEntry): string {
+        const title = this.plugin.fileManager.getCardTitle(entry.file);
+        return title === entry.id ? entry.id : `${entry.id} ${title}`;
+    }
+}
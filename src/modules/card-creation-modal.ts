@@ -0,0 +1,72 @@
+import { App, Modal, Setting } from 'obsidian';
+
+// 新建主卡前预览生成的 ID 并填写标题
+export class CardCreationModal extends Modal {
+    private title = '';
+    private submitted = false;
+    private resolve: (title: string | null) => void = () => {};
+
+    constructor(
+        app: App,
+        private cardId: string,
+        private previewFileName: (title: string) => string
+    ) {
+        super(app);
+    }
+
+    // 返回填写的标题，取消时返回 null
+    prompt(): Promise<string | null> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(`新建主卡：${this.cardId}`);
+
+        const previewEl = contentEl.createEl('p', { text: this.getPreviewText() });
+
+        new Setting(contentEl)
+            .setName('标题')
+            .addText(text => {
+                text
+                    .setPlaceholder('输入主卡标题')
+                    .onChange(value => {
+                        this.title = value.trim();
+                        previewEl.setText(this.getPreviewText());
+                    });
+                text.inputEl.addEventListener('keydown', (evt) => {
+                    if (evt.key === 'Enter' && !evt.isComposing) {
+                        evt.preventDefault();
+                        this.submit();
+                    }
+                });
+                window.setTimeout(() => text.inputEl.focus(), 0);
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('创建')
+                .setCta()
+                .onClick(() => this.submit()))
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolve(this.submitted ? this.title : null);
+    }
+
+    private getPreviewText(): string {
+        return `文件名：${this.previewFileName(this.title)}.md`;
+    }
+
+    private submit() {
+        this.submitted = true;
+        this.close();
+    }
+}
@@ -0,0 +1,315 @@
+import { TAbstractFile, TFile, TFolder } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { MainBoxConfig, MainCardEntry } from '@/types';
+import { MainCardIdHelper } from '@/modules/id-helper';
+
+// 顶层主卡在子主卡索引中使用的父级键
+const ROOT_KEY = '';
+
+// 单个主盒的派生索引：构建时整体排序一次，之后按条目插入和移除，列表始终保持阅读顺序
+// 列表在变动时替换为新数组，调用方在异步操作中持有的查询结果不受后续事件影响
+interface BoxIndex {
+    box: MainBoxConfig;
+    ordered: MainCardEntry[];
+    entriesById: Map<string, MainCardEntry[]>;
+    childrenByParentId: Map<string, MainCardEntry[]>;
+}
+
+// 主卡内存索引：布局就绪时构建一次，之后随文件和元数据事件增量更新
+// 各主盒的 ID 互相独立，按 ID 查询时需要指定主盒
+export class CardIndex {
+    private entriesByPath: Map<string, MainCardEntry> = new Map();
+    private boxIndexes: Map<string, BoxIndex> = new Map();
+    private built = false;
+
+    constructor(private plugin: ZettelkastenPlugin) {}
+
+    build() {
+        this.entriesByPath.clear();
+        this.boxIndexes.clear();
+        for (const box of this.plugin.settings.mainBoxes) {
+            const folder = this.plugin.app.vault.getAbstractFileByPath(box.path);
+            if (folder instanceof TFolder) this.addFolder(folder);
+        }
+        for (const box of this.plugin.settings.mainBoxes) {
+            const index: BoxIndex = { box, ordered: [], entriesById: new Map(), childrenByParentId: new Map() };
+            index.ordered = Array.from(this.entriesByPath.values())
+                .filter(entry => entry.box.path === box.path)
+                .sort(compareEntries);
+            for (const entry of index.ordered) {
+                getOrCreate(index.entriesById, entry.id).push(entry);
+                getOrCreate(index.childrenByParentId, getParentKey(entry.id)).push(entry);
+            }
+            this.boxIndexes.set(box.path, index);
+        }
+        this.built = true;
+    }
+
+    getBoxes(): MainBoxConfig[] {
+        return this.plugin.settings.mainBoxes;
+    }
+
+    // 路径所属的主盒：文件直接位于主盒文件夹中，或主盒包含子文件夹且文件位于其下
+    // 主盒互相嵌套时取最深的主盒；路径按完整的文件夹名匹配，MainBox2 不属于 MainBox
+    getBoxForPath(path: string): MainBoxConfig | undefined {
+        const folderPath = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+        let result: MainBoxConfig | undefined;
+        for (const box of this.plugin.settings.mainBoxes) {
+            // 未填写路径的主盒不匹配任何文件
+            if (!box.path || box.path === '/') continue;
+            const matches = folderPath === box.path || (box.includeSubfolders && folderPath.startsWith(box.path + '/'));
+            if (matches && (!result || box.path.length > result.path.length)) result = box;
+        }
+        return result;
+    }
+
+    getBoxForFile(file: TAbstractFile): MainBoxConfig | undefined {
+        return this.getBoxForPath(file.path);
+    }
+
+    // 知识树 Canvas 所在文件夹对应的主盒
+    getBoxForCanvas(file: TFile): MainBoxConfig | undefined {
+        const folderPath = file.parent?.path;
+        return this.plugin.settings.mainBoxes.find(box => box.canvasPath === folderPath);
+    }
+
+    isMainCardFile(file: TAbstractFile): file is TFile {
+        if (!(file instanceof TFile) || file.extension !== 'md') return false;
+        return this.getBoxForFile(file) !== undefined;
+    }
+
+    // 事件处理：由插件在其他监听器之前调用，保证后续逻辑读取到最新索引
+    // 返回值用于知识树同步：是否新增了主卡，或变动前的主卡 ID
+    handleCreate(file: TAbstractFile): boolean {
+        if (!this.built || !this.isMainCardFile(file)) return false;
+        this.setEntry(this.createEntry(file));
+        return true;
+    }
+
+    handleDelete(file: TAbstractFile): string | undefined {
+        if (!this.built) return undefined;
+        const entry = this.entriesByPath.get(file.path);
+        if (!entry) return undefined;
+        this.removeEntry(file.path);
+        return entry.id;
+    }
+
+    handleRename(file: TAbstractFile, oldPath: string): string | undefined {
+        if (!this.built) return undefined;
+        const entry = this.entriesByPath.get(oldPath);
+        this.removeEntry(oldPath);
+        if (this.isMainCardFile(file)) {
+            this.setEntry(this.createEntry(file));
+        }
+        return entry?.id;
+    }
+
+    // 只有主卡 ID 发生变化时才返回旧 ID
+    handleMetadataChanged(file: TFile): string | undefined {
+        if (!this.built || !this.isMainCardFile(file)) return undefined;
+        const entry = this.entriesByPath.get(file.path);
+        const newEntry = this.createEntry(file);
+        if (entry && entry.id === newEntry.id) return undefined;
+        this.setEntry(newEntry);
+        return entry ? entry.id : undefined;
+    }
+
+    // 按主盒顺序、主盒内按阅读顺序（compareIds）排列的全部主卡；指定主盒时只返回该主盒的主卡
+    getEntries(box?: MainBoxConfig): MainCardEntry[] {
+        if (box) return this.getBoxIndex(box)?.ordered ?? [];
+        return Array.from(this.boxIndexes.values())
+            .reduce((entries: MainCardEntry[], index) => entries.concat(this.getBoxIndex(index.box)?.ordered ?? []), []);
+    }
+
+    getEntry(file: TFile): MainCardEntry | undefined {
+        this.ensureBuilt();
+        return this.entriesByPath.get(file.path);
+    }
+
+    // 已索引的主卡返回索引中的 ID，否则实时解析
+    getId(file: TFile): string {
+        const entry = this.getEntry(file);
+        return entry ? entry.id : this.plugin.fileManager.getCardId(file);
+    }
+
+    getCard(box: MainBoxConfig, id: string): MainCardEntry | undefined {
+        return this.getCardsById(box, id)[0];
+    }
+
+    // 同一 ID 可能对应多张主卡（ID 重复）
+    getCardsById(box: MainBoxConfig, id: string): MainCardEntry[] {
+        return this.getBoxIndex(box)?.entriesById.get(id) ?? [];
+    }
+
+    getParent(box: MainBoxConfig, id: string): MainCardEntry | undefined {
+        const parentId = MainCardIdHelper.getParentId(id);
+        return parentId === null ? undefined : this.getCard(box, parentId);
+    }
+
+    // 直接子主卡，按编号排序
+    getChildren(box: MainBoxConfig, id: string): MainCardEntry[] {
+        return this.getBoxIndex(box)?.childrenByParentId.get(id) ?? [];
+    }
+
+    // 同一父级下的兄弟主卡（包含自身），按编号排序
+    getSiblings(box: MainBoxConfig, id: string): MainCardEntry[] {
+        return this.getBoxIndex(box)?.childrenByParentId.get(MainCardIdHelper.getParentId(id) ?? ROOT_KEY) ?? [];
+    }
+
+    // 阅读顺序中的下一张主卡（同一主盒内）
+    getNext(file: TFile): MainCardEntry | undefined {
+        const entry = this.getEntry(file);
+        if (!entry) return undefined;
+        const ordered = this.getBoxIndex(entry.box)?.ordered ?? [];
+        return ordered[indexOfEntry(ordered, entry) + 1];
+    }
+
+    // 阅读顺序中的上一张主卡（同一主盒内）
+    getPrevious(file: TFile): MainCardEntry | undefined {
+        const entry = this.getEntry(file);
+        if (!entry) return undefined;
+        const ordered = this.getBoxIndex(entry.box)?.ordered ?? [];
+        const position = indexOfEntry(ordered, entry);
+        return position > 0 ? ordered[position - 1] : undefined;
+    }
+
+    // 以 rootId 为根的分支（包含根本身），按阅读顺序排列
+    getSubtree(box: MainBoxConfig, rootId: string): MainCardEntry[] {
+        const index = this.getBoxIndex(box);
+        const root = this.getCard(box, rootId);
+        if (!index || !root) return [];
+        const result: MainCardEntry[] = [];
+        for (let i = indexOfEntry(index.ordered, root); i >= 0 && i < index.ordered.length; i++) {
+            if (!MainCardIdHelper.isInSubtree(index.ordered[i].id, rootId)) break;
+            result.push(index.ordered[i]);
+        }
+        return result;
+    }
+
+    // 主卡在 rootId 分支中的层级：根为 0，只计算实际存在的祖先，缺失的中间层级不计入
+    getDepthInSubtree(box: MainBoxConfig, id: string, rootId: string): number {
+        let depth = 0;
+        let parentId = MainCardIdHelper.getParentId(id);
+        while (parentId !== null && MainCardIdHelper.isInSubtree(parentId, rootId)) {
+            if (this.getCard(box, parentId)) depth++;
+            parentId = MainCardIdHelper.getParentId(parentId);
+        }
+        return depth;
+    }
+
+    private addFolder(folder: TFolder) {
+        for (const child of folder.children) {
+            if (child instanceof TFolder) {
+                this.addFolder(child);
+            } else if (this.isMainCardFile(child)) {
+                this.entriesByPath.set(child.path, this.createEntry(child));
+            }
+        }
+    }
+
+    private createEntry(file: TFile): MainCardEntry {
+        const box = this.getBoxForFile(file) as MainBoxConfig;
+        return { file, id: this.plugin.fileManager.getCardId(file), box };
+    }
+
+    // 只在所属主盒的有序列表中插入或移除该条目，不重新排序
+    private setEntry(entry: MainCardEntry) {
+        this.removeEntry(entry.file.path);
+        this.entriesByPath.set(entry.file.path, entry);
+        const index = this.boxIndexes.get(entry.box.path);
+        if (!index) return;
+        index.ordered = withEntry(index.ordered, entry);
+        index.entriesById.set(entry.id, withEntry(index.entriesById.get(entry.id) ?? [], entry));
+        const parentKey = getParentKey(entry.id);
+        index.childrenByParentId.set(parentKey, withEntry(index.childrenByParentId.get(parentKey) ?? [], entry));
+    }
+
+    private removeEntry(path: string) {
+        const entry = this.entriesByPath.get(path);
+        if (!entry) return;
+        this.entriesByPath.delete(path);
+        const index = this.boxIndexes.get(entry.box.path);
+        if (!index) return;
+        index.ordered = withoutEntry(index.ordered, entry);
+        removeFromMap(index.entriesById, entry.id, entry);
+        removeFromMap(index.childrenByParentId, getParentKey(entry.id), entry);
+    }
+
+    private ensureBuilt() {
+        if (!this.built) this.build();
+    }
+
+    private getBoxIndex(box: MainBoxConfig): BoxIndex | undefined {
+        this.ensureBuilt();
+        return this.boxIndexes.get(box.path);
+    }
+}
+
+// 阅读顺序：按 ID 排序，ID 相同（重复）时按路径
+function compareEntries(a: MainCardEntry, b: MainCardEntry): number {
+    return MainCardIdHelper.compareIds(a.id, b.id) || a.file.path.localeCompare(b.file.path);
+}
+
+function getParentKey(id: string): string {
+    return MainCardIdHelper.getParentId(id) ?? ROOT_KEY;
+}
+
+function getOrCreate(map: Map<string, MainCardEntry[]>, key: string): MainCardEntry[] {
+    let list = map.get(key);
+    if (!list) {
+        list = [];
+        map.set(key, list);
+    }
+    return list;
+}
+
+// 有序列表中第一个 ID 不小于 id 的位置
+function lowerBound(list: MainCardEntry[], id: string): number {
+    let low = 0;
+    let high = list.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (MainCardIdHelper.compareIds(list[mid].id, id) < 0) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
+
+// 条目在有序列表中的位置，不在列表中时返回 -1
+// 重命名后文件路径已经变化，只按 ID 定位，再在相同 ID 的条目中逐个比较
+function indexOfEntry(list: MainCardEntry[], entry: MainCardEntry): number {
+    for (let i = lowerBound(list, entry.id); i < list.length && MainCardIdHelper.compareIds(list[i].id, entry.id) === 0; i++) {
+        if (list[i] === entry) return i;
+    }
+    return -1;
+}
+
+// 插入条目后的新列表
+function withEntry(list: MainCardEntry[], entry: MainCardEntry): MainCardEntry[] {
+    let i = lowerBound(list, entry.id);
+    while (i < list.length && compareEntries(list[i], entry) < 0) i++;
+    const result = list.slice();
+    result.splice(i, 0, entry);
+    return result;
+}
+
+// 移除条目后的新列表，条目不在列表中时返回原列表
+function withoutEntry(list: MainCardEntry[], entry: MainCardEntry): MainCardEntry[] {
+    const i = indexOfEntry(list, entry);
+    if (i === -1) return list;
+    const result = list.slice();
+    result.splice(i, 1);
+    return result;
+}
+
+function removeFromMap(map: Map<string, MainCardEntry[]>, key: string, entry: MainCardEntry) {
+    const list = withoutEntry(map.get(key) ?? [], entry);
+    if (list.length === 0) {
+        map.delete(key);
+    } else {
+        map.set(key, list);
+    }
+}
@@ -0,0 +1,138 @@
+import { moment } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { BranchStats, CardStats, IdGapStats, MainBoxConfig, MainCardEntry } from '@/types';
+import { MainCardIdHelper } from '@/modules/id-helper';
+
+// 最宽、最深分支各列出的数量
+const TOP_COUNT = 5;
+// 按周统计新建主卡的周数
+const WEEK_COUNT = 12;
+// 相邻编号之间剩余的可用编号不多于步长的该比例时视为即将用尽（步长 10 时为 2 个）
+const NEARLY_EXHAUSTED_RATIO = 0.25;
+
+// 按主卡 ID 层级统计主盒：分支规模、层级分布、新建趋势、孤立主卡和即将用尽的编号
+export class CardStatistics {
+    constructor(private plugin: ZettelkastenPlugin) {}
+
+    collect(box: MainBoxConfig): CardStats {
+        const entries = this.plugin.cardIndex.getEntries(box);
+        const branches = this.getBranches(box, entries);
+        return {
+            box,
+            total: entries.length,
+            branches,
+            depthCounts: this.getDepthCounts(entries),
+            widest: this.getWidest(box, entries),
+            deepest: branches.slice()
+                .sort((a, b) => b.maxDepth - a.maxDepth || b.count - a.count)
+                .slice(0, TOP_COUNT),
+            weeks: this.getWeeks(entries),
+            isolatedLeaves: this.getIsolatedLeaves(box, entries),
+            nearlyExhausted: this.getNearlyExhaustedGaps(box, entries)
+        };
+    }
+
+    // 按顶层 ID 分组，顶层主卡缺失时分支仍然统计
+    private getBranches(box: MainBoxConfig, entries: MainCardEntry[]): BranchStats[] {
+        const branches = new Map<string, BranchStats>();
+        for (const { id } of entries) {
+            const rootId = MainCardIdHelper.getScheme().join([MainCardIdHelper.getSegments(id)[0]]);
+            let branch = branches.get(rootId);
+            if (!branch) {
+                branch = { rootId, root: this.plugin.cardIndex.getCard(box, rootId), count: 0, maxDepth: 0 };
+                branches.set(rootId, branch);
+            }
+            branch.count++;
+            branch.maxDepth = Math.max(branch.maxDepth, MainCardIdHelper.getDepth(id));
+        }
+        return Array.from(branches.values()).sort((a, b) => MainCardIdHelper.compareIds(a.rootId, b.rootId));
+    }
+
+    private getDepthCounts(entries: MainCardEntry[]): { depth: number; count: number }[] {
+        const counts = new Map<number, number>();
+        for (const { id } of entries) {
+            const depth = MainCardIdHelper.getDepth(id);
+            counts.set(depth, (counts.get(depth) ?? 0) + 1);
+        }
+        return Array.from(counts.entries())
+            .map(([depth, count]) => ({ depth, count }))
+            .sort((a, b) => a.depth - b.depth);
+    }
+
+    // 子主卡最多的主卡
+    private getWidest(box: MainBoxConfig, entries: MainCardEntry[]): { entry: MainCardEntry; childCount: number }[] {
+        return entries
+            .map(entry => ({ entry, childCount: this.plugin.cardIndex.getChildren(box, entry.id).length }))
+            .filter(({ childCount }) => childCount > 0)
+            .sort((a, b) => b.childCount - a.childCount)
+            .slice(0, TOP_COUNT);
+    }
+
+    // 最近几周每周新建的主卡数量（按文件创建时间），没有新建的周也列出
+    private getWeeks(entries: MainCardEntry[]): { week: string; count: number }[] {
+        const firstWeek = moment().startOf('isoWeek').subtract(WEEK_COUNT - 1, 'weeks');
+        const weeks: { week: string; count: number }[] = [];
+        for (let i = 0; i < WEEK_COUNT; i++) {
+            weeks.push({ week: firstWeek.clone().add(i, 'weeks').format('YYYY-MM-DD'), count: 0 });
+        }
+        for (const { file } of entries) {
+            const index = moment(file.stat.ctime).startOf('isoWeek').diff(firstWeek, 'weeks');
+            if (index >= 0 && index < WEEK_COUNT) weeks[index].count++;
+        }
+        return weeks;
+    }
+
+    // 没有子主卡、也没有链入和链出链接的主卡
+    private getIsolatedLeaves(box: MainBoxConfig, entries: MainCardEntry[]): MainCardEntry[] {
+        const resolvedLinks = this.plugin.app.metadataCache.resolvedLinks;
+        const linkedPaths = new Set<string>();
+        for (const sourcePath of Object.keys(resolvedLinks)) {
+            const destinations = Object.keys(resolvedLinks[sourcePath]).filter(path => path !== sourcePath);
+            if (destinations.length === 0) continue;
+            linkedPaths.add(sourcePath);
+            destinations.forEach(path => linkedPaths.add(path));
+        }
+        return entries.filter(({ file, id }) =>
+            !linkedPaths.has(file.path) && this.plugin.cardIndex.getChildren(box, id).length === 0
+        );
+    }
+
+    // 相邻兄弟主卡之间、以及第一个子主卡之前剩余的可用编号
+    private getNearlyExhaustedGaps(box: MainBoxConfig, entries: MainCardEntry[]): IdGapStats[] | null {
+        const scheme = MainCardIdHelper.getScheme();
+        // 步长过小时新编号之间本就没有多少空间，不检查
+        const threshold = Math.floor(scheme.step * NEARLY_EXHAUSTED_RATIO);
+        if (threshold < 1) return null;
+        const getOrdinal = (id: string) => {
+            const segments = MainCardIdHelper.getSegments(id);
+            return scheme.getOrdinal(segments[segments.length - 1]);
+        };
+
+        const validEntries = entries.filter(({ id }) => MainCardIdHelper.isValidId(id));
+        const parentIds: (string | null)[] = [null as string | null]
+            .concat(Array.from(new Set(validEntries.map(({ id }) => id))));
+
+        const gaps: IdGapStats[] = [];
+        for (const parentId of parentIds) {
+            const siblingIds = (parentId === null
+                ? validEntries.filter(({ id }) => MainCardIdHelper.getDepth(id) === 1)
+                : this.plugin.cardIndex.getChildren(box, parentId))
+                .map(({ id }) => id)
+                .filter((id, index, ids) => ids.indexOf(id) === index);
+            if (siblingIds.length === 0) continue;
+
+            // 顶层编号从方案的起始编号开始，不检查第一个之前的空间
+            if (parentId !== null) {
+                const free = getOrdinal(siblingIds[0]) - 1;
+                if (free <= threshold) gaps.push({ previousId: null, nextId: siblingIds[0], parentId, free });
+            }
+            for (let i = 0; i < siblingIds.length - 1; i++) {
+                const free = getOrdinal(siblingIds[i + 1]) - getOrdinal(siblingIds[i]) - 1;
+                if (free <= threshold) {
+                    gaps.push({ previousId: siblingIds[i], nextId: siblingIds[i + 1], parentId, free });
+                }
+            }
+        }
+        return gaps.sort((a, b) => MainCardIdHelper.compareIds(a.nextId, b.nextId));
+    }
+}
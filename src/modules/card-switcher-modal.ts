@@ -0,0 +1,109 @@
+import { Keymap, MarkdownView, Notice, SearchResult, SuggestModal, prepareFuzzySearch, renderResults } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { MainCardEntry } from '@/types';
+import { MainCardIdHelper } from '@/modules/id-helper';
+
+interface CardSuggestion {
+    entry: MainCardEntry;
+    text: string;
+    // ID 前缀匹配时为 null
+    match: SearchResult | null;
+}
+
+// 按 ID 和标题快速切换主卡：回车打开，Shift+回车插入链接，Ctrl/Cmd+回车打开知识树
+export class CardSwitcherModal extends SuggestModal<CardSuggestion> {
+    constructor(private plugin: ZettelkastenPlugin) {
+        super(plugin.app);
+        this.setPlaceholder('输入主卡 ID 或标题');
+        this.setInstructions([
+            { command: '↵', purpose: '打开主卡' },
+            { command: 'shift ↵', purpose: '插入链接' },
+            { command: 'ctrl/cmd ↵', purpose: '打开知识树' },
+            { command: 'esc', purpose: '关闭' }
+        ]);
+        this.scope.register(['Shift'], 'Enter', (evt) => {
+            this.selectActiveSuggestion(evt);
+            return false;
+        });
+        this.scope.register(['Mod'], 'Enter', (evt) => {
+            this.selectActiveSuggestion(evt);
+            return false;
+        });
+    }
+
+    // ID 前缀匹配的主卡按 ID 顺序排在最前，其余按 ID 和标题的模糊匹配得分排序
+    getSuggestions(query: string): CardSuggestion[] {
+        const trimmed = query.trim();
+        const entries = this.plugin.cardIndex.getEntries();
+        const suggestions = entries.map(entry => ({
+            entry,
+            text: `${entry.id} ${this.plugin.fileManager.getCardTitle(entry.file)}`,
+            match: null as SearchResult | null
+        }));
+        if (!trimmed) return suggestions;
+
+        const prefixMatches = suggestions
+            .filter(({ entry }) => entry.id.startsWith(trimmed))
+            .sort((a, b) => MainCardIdHelper.compareIds(a.entry.id, b.entry.id));
+
+        const fuzzySearch = prepareFuzzySearch(trimmed);
+        const fuzzyMatches: CardSuggestion[] = [];
+        for (const suggestion of suggestions) {
+            if (suggestion.entry.id.startsWith(trimmed)) continue;
+            const match = fuzzySearch(suggestion.text);
+            if (match) fuzzyMatches.push({ ...suggestion, match });
+        }
+        fuzzyMatches.sort((a, b) => (b.match as SearchResult).score - (a.match as SearchResult).score);
+
+        return prefixMatches.concat(fuzzyMatches);
+    }
+
+    renderSuggestion({ entry, text, match }: CardSuggestion, el: HTMLElement): void {
+        const contentEl = el.createDiv({ cls: 'suggestion-content' });
+        const titleEl = contentEl.createDiv({ cls: 'suggestion-title' });
+        if (match) {
+            renderResults(titleEl, text, match);
+        } else {
+            titleEl.setText(text);
+        }
+        const path = this.getAncestorPath(entry);
+        if (path) contentEl.createDiv({ cls: 'suggestion-note', text: path });
+    }
+
+    async onChooseSuggestion({ entry }: CardSuggestion, evt: MouseEvent | KeyboardEvent): Promise<void> {
+        if (evt.shiftKey) {
+            this.insertLink(entry);
+        } else if (Keymap.isModEvent(evt)) {
+            try {
+                await this.plugin.canvasManager.openKnowledgeTreeCanvas(entry.file);
+            } catch (error) {
+                new Notice('打开知识树失败：' + error.message);
+            }
+        } else {
+            await this.app.workspace.getLeaf(false).openFile(entry.file);
+        }
+    }
+
+    // 祖先路径：缺失的祖先只显示 ID；有多个主盒时以主盒路径开头
+    private getAncestorPath(entry: MainCardEntry): string {
+        const parts: string[] = [];
+        let parentId = MainCardIdHelper.getParentId(entry.id);
+        while (parentId !== null) {
+            const ancestor = this.plugin.cardIndex.getCard(entry.box, parentId);
+            parts.unshift(ancestor ? ancestor.file.basename : parentId);
+            parentId = MainCardIdHelper.getParentId(parentId);
+        }
+        if (this.plugin.cardIndex.getBoxes().length > 1) parts.unshift(entry.box.path);
+        return parts.join(' / ');
+    }
+
+    private insertLink(entry: MainCardEntry) {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (!view || !view.file) {
+            new Notice('没有可插入链接的编辑器');
+            return;
+        }
+        const link = this.app.fileManager.generateMarkdownLink(entry.file, view.file.path);
+        view.editor.replaceSelection(link);
+    }
+}
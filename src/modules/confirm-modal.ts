@@ -0,0 +1,46 @@
+import { App, Modal, Setting } from 'obsidian';
+
+// 通用确认框：不可轻易撤回的操作前确认
+export class ConfirmModal extends Modal {
+    private confirmed = false;
+    private resolve: (confirmed: boolean) => void = () => {};
+
+    constructor(
+        app: App,
+        private title: string,
+        private message: string,
+        private confirmText: string
+    ) {
+        super(app);
+    }
+
+    confirm(): Promise<boolean> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(this.title);
+        contentEl.createEl('p', { text: this.message });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(this.confirmText)
+                .setWarning()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }))
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolve(this.confirmed);
+    }
+}
@@ -0,0 +1,24 @@
+import { App, SuggestModal } from 'obsidian';
+import { ExportFormat } from '@/types';
+import { EXPORT_FORMAT_LABELS } from '@/modules/export-manager';
+
+// 选择分支导出格式
+export class ExportFormatModal extends SuggestModal<ExportFormat> {
+    constructor(app: App, private onChoose: (format: ExportFormat) => void) {
+        super(app);
+        this.setPlaceholder('选择导出格式');
+    }
+
+    getSuggestions(query: string): ExportFormat[] {
+        return (Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[])
+            .filter(format => EXPORT_FORMAT_LABELS[format].toLowerCase().includes(query.toLowerCase()));
+    }
+
+    renderSuggestion(format: ExportFormat, el: HTMLElement) {
+        el.createDiv({ text: EXPORT_FORMAT_LABELS[format] });
+    }
+
+    onChooseSuggestion(format: ExportFormat) {
+        this.onChoose(format);
+    }
+}
@@ -0,0 +1,195 @@
+import { Component, MarkdownRenderer, TFile, getLinkpath, normalizePath } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { ExportFormat, MainCardEntry } from '@/types';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+    markdown: 'Markdown',
+    html: 'HTML',
+    opml: 'OPML'
+};
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+    markdown: 'md',
+    html: 'html',
+    opml: 'opml'
+};
+
+interface ExportedCard {
+    entry: MainCardEntry;
+    // 相对根主卡的层级，根主卡为 0
+    depth: number;
+    body: string;
+}
+
+interface TextReplacement {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// 将主卡及其全部子孙按阅读顺序导出为单个文档
+export class ExportManager {
+    constructor(private plugin: ZettelkastenPlugin) {}
+
+    async exportBranch(rootFile: TFile, format: ExportFormat): Promise<TFile> {
+        const { vault } = this.plugin.app;
+        const rootEntry = this.plugin.cardIndex.getEntry(rootFile);
+        const entries = rootEntry ? this.plugin.cardIndex.getSubtree(rootEntry.box, rootEntry.id) : [];
+        if (entries.length === 0) throw new Error('未找到主卡分支');
+
+        const cards = await this.collectCards(entries, format);
+        let content: string;
+        switch (format) {
+            case 'markdown':
+                content = this.renderMarkdown(cards);
+                break;
+            case 'html':
+                content = await this.renderHtml(cards, rootFile);
+                break;
+            case 'opml':
+                content = this.renderOpml(cards, rootFile);
+                break;
+        }
+
+        const folderPath = normalizePath(this.plugin.settings.exportPath);
+        if (!vault.getAbstractFileByPath(folderPath)) {
+            await vault.createFolder(folderPath);
+        }
+        const exportPath = normalizePath(`${folderPath}/${rootFile.basename}.${EXPORT_EXTENSIONS[format]}`);
+        const existing = vault.getAbstractFileByPath(exportPath);
+        if (existing instanceof TFile) {
+            await vault.modify(existing, content);
+            return existing;
+        }
+        return vault.create(exportPath, content);
+    }
+
+    // 读取主卡正文：去掉 frontmatter，分支内的链接改为文档内锚点，正文标题降级到主卡标题之下
+    private async collectCards(entries: MainCardEntry[], format: ExportFormat): Promise<ExportedCard[]> {
+        const { vault, metadataCache } = this.plugin.app;
+        const exportedPaths = new Set(entries.map(({ file }) => file.path));
+        const anchors = new Map(entries.map(({ file, id }) => [file.path, this.getAnchor(id)]));
+
+        const cards: ExportedCard[] = [];
+        for (const entry of entries) {
+            const content = await vault.cachedRead(entry.file);
+            const cache = metadataCache.getFileCache(entry.file);
+            const depth = this.plugin.cardIndex.getDepthInSubtree(entry.box, entry.id, entries[0].id);
+            const links: TextReplacement[] = [];
+            for (const link of cache?.links ?? []) {
+                const target = metadataCache.getFirstLinkpathDest(getLinkpath(link.link), entry.file.path);
+                if (!target || !exportedPaths.has(target.path)) continue;
+                const text = link.displayText || target.basename;
+                links.push({
+                    start: link.position.start.offset,
+                    end: link.position.end.offset,
+                    // OPML 没有文档内锚点，只保留链接文字
+                    text: format === 'opml' ? text : `[${text}](#${anchors.get(target.path)})`
+                });
+            }
+            // 标题中的链接在标题行内替换，避免与标题的替换范围重叠
+            const replacements: TextReplacement[] = [];
+            for (const heading of cache?.headings ?? []) {
+                const level = Math.min(heading.level + this.getHeadingLevel(depth), 6);
+                const { offset: start } = heading.position.start;
+                const { offset: end } = heading.position.end;
+                const line = this.applyReplacements(content.slice(start, end), links
+                    .filter(link => link.start >= start && link.end <= end)
+                    .map(link => ({ ...link, start: link.start - start, end: link.end - start })));
+                // 去掉 ATX 标题的 # 和 Setext 标题的下划线，只保留标题文字
+                const text = line.replace(/\n\s*[=-]+\s*$/, '').replace(/^\s*#+\s*/, '').replace(/\s+#+\s*$/, '');
+                replacements.push({ start, end, text: `${'#'.repeat(level)} ${text}` });
+            }
+            replacements.push(...links.filter(link =>
+                !replacements.some(({ start, end }) => link.start >= start && link.end <= end)));
+
+            const bodyStart = cache?.frontmatterPosition?.end.offset ?? 0;
+            const body = this.applyReplacements(content, replacements.filter(({ start }) => start >= bodyStart))
+                .slice(bodyStart)
+                .trim();
+            cards.push({ entry, depth, body });
+        }
+        return cards;
+    }
+
+    private applyReplacements(content: string, replacements: TextReplacement[]): string {
+        // 从后往前替换，避免偏移量失效
+        return replacements
+            .sort((a, b) => b.start - a.start)
+            .reduce((text, { start, end, text: replacement }) => text.slice(0, start) + replacement + text.slice(end), content);
+    }
+
+    private renderMarkdown(cards: ExportedCard[]): string {
+        return cards.map(({ entry, depth, body }) => {
+            const heading = `<a id="${this.getAnchor(entry.id)}"></a>\n${'#'.repeat(this.getHeadingLevel(depth))} ${entry.file.basename}`;
+            return body ? `${heading}\n\n${body}` : heading;
+        }).join('\n\n') + '\n';
+    }
+
+    private async renderHtml(cards: ExportedCard[], rootFile: TFile): Promise<string> {
+        const container = createDiv();
+        const component = new Component();
+        component.load();
+        try {
+            await MarkdownRenderer.render(this.plugin.app, this.renderMarkdown(cards), container, rootFile.path, component);
+        } finally {
+            component.unload();
+        }
+        return [
+            '<!DOCTYPE html>',
+            '<html>',
+            '<head>',
+            '<meta charset="utf-8">',
+            `<title>${this.escapeXml(rootFile.basename)}</title>`,
+            '</head>',
+            '<body>',
+            container.innerHTML,
+            '</body>',
+            '</html>',
+            ''
+        ].join('\n');
+    }
+
+    private renderOpml(cards: ExportedCard[], rootFile: TFile): string {
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<opml version="2.0">',
+            '<head>',
+            `<title>${this.escapeXml(rootFile.basename)}</title>`,
+            '</head>',
+            '<body>'
+        ];
+        // 按层级嵌套 outline
+        let openDepth = -1;
+        for (const { entry, depth, body } of cards) {
+            for (; openDepth >= depth; openDepth--) {
+                lines.push(`${'\t'.repeat(openDepth + 1)}</outline>`);
+            }
+            const note = body ? ` _note="${this.escapeXml(body)}"` : '';
+            lines.push(`${'\t'.repeat(depth + 1)}<outline text="${this.escapeXml(entry.file.basename)}"${note}>`);
+            openDepth = depth;
+        }
+        for (; openDepth >= 0; openDepth--) {
+            lines.push(`${'\t'.repeat(openDepth + 1)}</outline>`);
+        }
+        lines.push('</body>', '</opml>', '');
+        return lines.join('\n');
+    }
+
+    private getHeadingLevel(depth: number): number {
+        return Math.min(depth + 1, 6);
+    }
+
+    private getAnchor(cardId: string): string {
+        return `card-${cardId}`;
+    }
+
+    private escapeXml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/\n/g, '&#10;');
+    }
+}
@@ -1,108 +1,567 @@
-import { App, TFile, TFolder, Notice } from 'obsidian';
+import { App, TAbstractFile, TFile, TFolder, Notice, ReferenceCache, getLinkpath, moment, normalizePath, parseLinktext } from 'obsidian';
 import { ZettelkastenPlugin } from '@/main';
+import { MainCardEntry, IdChange, MainBoxConfig, NewCardId } from '@/types';
 import { MainCardIdHelper } from './id-helper';
+import { IdGapModal } from './id-gap-modal';
+import { MoveTarget } from './move-card-modal';
+import { CardCreationModal } from './card-creation-modal';
+import { IdPropertyMigration } from './id-property-modal';
+
+// 同一笔记中指向待重命名主卡的链接
+interface Backlinks {
+    source: TFile;
+    links: { link: ReferenceCache; target: TFile }[];
+}
 
 export class FileManager {
     constructor(private plugin: ZettelkastenPlugin) {}
 
+    // 优先读取所属主盒的 ID 属性，否则使用文件名
     getCardId(file: TFile): string {
+        const idProperty = this.plugin.cardIndex.getBoxForFile(file)?.idProperty;
         const cache = this.plugin.app.metadataCache.getFileCache(file);
         const frontmatter = cache?.frontmatter;
-        if (frontmatter && frontmatter[this.plugin.settings.mainCardIdProperty]) {
-            return String(frontmatter[this.plugin.settings.mainCardIdProperty]);
+        if (idProperty && frontmatter && frontmatter[idProperty]) {
+            return String(frontmatter[idProperty]);
         }
         return file.basename;
     }
 
-    async getSortedMainCards(): Promise<TFile[]> {
-        const folder = this.plugin.app.vault.getAbstractFileByPath(this.plugin.settings.mainBoxPath);
+    // 主卡标题：去掉文件名开头的 ID
+    getCardTitle(file: TFile): string {
+        const id = this.getCardId(file);
+        if (file.basename.startsWith(id + ' ')) {
+            return file.basename.slice(id.length + 1).trim();
+        }
+        return file.basename;
+    }
+
+    async getSortedMainCards(box: MainBoxConfig): Promise<TFile[]> {
+        const folder = this.plugin.app.vault.getAbstractFileByPath(box.path);
         if (!(folder instanceof TFolder)) throw new Error('主盒路径无效');
 
-        const files = folder.children.filter((f): f is TFile => f instanceof TFile);
-        return files.sort((a, b) => this.getCardId(a).localeCompare(this.getCardId(b), 'zh-CN'));
+        return this.plugin.cardIndex.getEntries(box).map(({ file }) => file);
     }
 
-    async createNewMainCard(id: string, parent: TFolder): Promise<void> {
-        const path = parent.path + '/' + id + '.md';
-        await this.plugin.app.vault.create(path, '');
+    // 按文件名格式和模板创建主卡，并把 ID 写入 ID 属性
+    async createNewMainCard(id: string, parent: TFolder, title = ''): Promise<TFile> {
+        const file = await this.plugin.journal.record(`新建主卡 ${id}`, () => this.createMainCardFile(id, parent, title));
         new Notice(`已创建新主卡：${id}`);
+        return file;
+    }
+
+    // 同 createNewMainCard，但不提示，正文追加在模板内容之后；用于批量创建
+    async createMainCardFile(id: string, parent: TFolder, title: string, body = ''): Promise<TFile> {
+        const { vault, fileManager } = this.plugin.app;
+        const path = normalizePath(parent.path + '/' + this.formatFileName(id, title) + '.md');
+        if (vault.getAbstractFileByPath(path)) throw new Error(`文件已存在：${path}`);
+        const box = this.plugin.cardIndex.getBoxForPath(path);
+        if (!box) throw new Error(`文件夹不在主盒中：${parent.path}`);
+
+        let content = await this.renderTemplate(box, id, title);
+        if (body) {
+            content = content ? `${content.replace(/\n*$/, '')}\n\n${body}\n` : `${body}\n`;
+        }
+        const file = await vault.create(path, content);
+        this.plugin.journal.recordCreate(file);
+        await fileManager.processFrontMatter(file, (frontmatter) => {
+            frontmatter[box.idProperty] = id;
+        });
+        return file;
     }
 
+    formatFileName(id: string, title: string): string {
+        // 去掉文件名中不允许出现的字符
+        const safeTitle = title.replace(/[\\/:*?"<>|#^[\]]/g, '').trim();
+        const name = this.plugin.settings.cardFileNamePattern
+            .replace(/{{id}}/g, id)
+            .replace(/{{title}}/g, safeTitle)
+            .replace(/\s+/g, ' ')
+            .trim();
+        return name || id;
+    }
+
+    // 读取模板文件并替换 {{id}}、{{title}}、{{parent}}、{{parentLink}}、{{date}} 占位符
+    private async renderTemplate(box: MainBoxConfig, id: string, title: string): Promise<string> {
+        const templatePath = this.plugin.settings.cardTemplatePath.trim();
+        if (!templatePath) return '';
+
+        const { vault, metadataCache } = this.plugin.app;
+        const template = vault.getAbstractFileByPath(normalizePath(templatePath.endsWith('.md') ? templatePath : templatePath + '.md'));
+        if (!(template instanceof TFile)) {
+            new Notice(`找不到主卡模板：${templatePath}`);
+            return '';
+        }
+
+        const parentId = MainCardIdHelper.getParentId(id);
+        const parentEntry = parentId ? this.plugin.cardIndex.getCard(box, parentId) : undefined;
+        const parentLink = parentEntry ? `[[${metadataCache.fileToLinktext(parentEntry.file, '', true)}]]` : '';
+        const content = await vault.cachedRead(template);
+        return content
+            .replace(/{{id}}/g, id)
+            .replace(/{{title}}/g, title)
+            .replace(/{{parent}}/g, parentId ?? '')
+            .replace(/{{parentLink}}/g, parentLink)
+            .replace(/{{date}}/g, moment().format('YYYY-MM-DD'));
+    }
+
+    // 询问标题后创建主卡并在编辑器中打开；取消时不重排编号
+    private async promptAndCreateCard({ id, rebalance }: NewCardId, parent: TFolder): Promise<void> {
+        const title = await new CardCreationModal(this.plugin.app, id, (title) => this.formatFileName(id, title)).prompt();
+        if (title === null) return;
+        await this.applyRebalance(rebalance);
+        const file = await this.createNewMainCard(id, parent, title);
+        await this.plugin.app.workspace.getLeaf(false).openFile(file);
+    }
+
+    // 重排编号和新建主卡记录为同一次操作
     async createNewSiblingCard(currentFile: TFile): Promise<void> {
-        const files = await this.getSortedMainCards();
-        const currentId = this.getCardId(currentFile);
-        const currentParts = MainCardIdHelper.parseId(currentId);
-        const siblingLevel = currentParts.length;
-        const parentPrefix = currentParts.slice(0, -1).join('-');
-
-        // 过滤出同一父级下的兄弟主卡（分段数相同，前缀一致）
-        const siblingFiles = files.map(f => ({
-            file: f,
-            id: this.getCardId(f)
-        }));
+        const parent = currentFile.parent;
+        if (!parent) throw new Error('无法获取父文件夹');
+        await this.plugin.journal.record('新建兄弟主卡', async () => {
+            const newId = await this.generateSiblingCardId(currentFile);
+            if (newId) await this.promptAndCreateCard(newId, parent);
+        });
+    }
 
-        const filteredSiblings = siblingFiles.filter(({ id }) => {
-            const parts = MainCardIdHelper.parseId(id);
-            if (parts.length !== siblingLevel) return false;
-            if (siblingLevel === 1) return true; // 顶层主卡没有父级
-            return parts.slice(0, -1).join('-') === parentPrefix;
-        }).sort((a, b) => {
-            // 按最后一段编号的数值大小排序
-            const aParts = MainCardIdHelper.parseId(a.id);
-            const bParts = MainCardIdHelper.parseId(b.id);
-            return aParts[aParts.length - 1] - bParts[bParts.length - 1];
+    async createNewChildCard(parentFile: TFile): Promise<void> {
+        const parent = parentFile.parent;
+        if (!parent) throw new Error('无法获取父文件夹');
+        await this.plugin.journal.record('新建子主卡', async () => {
+            const newId = await this.generateChildCardId(parentFile);
+            if (newId) await this.promptAndCreateCard(newId, parent);
         });
+    }
+
+    // 编号用尽时选择的重排，在确认创建后才应用
+    private async applyRebalance(rebalance: IdChange[]): Promise<void> {
+        if (rebalance.length === 0) return;
+        await this.applyIdChanges(rebalance);
+        new Notice(`已重排 ${rebalance.length} 张主卡的编号`);
+    }
+
+    // 紧跟当前主卡的兄弟主卡 ID；编号用尽时询问处理方式，取消时返回 null
+    async generateSiblingCardId(currentFile: TFile): Promise<NewCardId | null> {
+        const cardIndex = this.plugin.cardIndex;
+        const entry = cardIndex.getEntry(currentFile);
+        if (!entry) throw new Error('找不到当前主卡');
+        const { box, id: currentId } = entry;
 
         // 找到当前主卡在兄弟主卡中的位置
-        const currentSiblingIndex = filteredSiblings.findIndex(({ file }) => file.path === currentFile.path);
+        const siblings = cardIndex.getSiblings(box, currentId);
+        const currentSiblingIndex = siblings.findIndex(({ file }) => file.path === currentFile.path);
         if (currentSiblingIndex === -1) throw new Error('找不到当前主卡');
-        const nextSiblingFile = filteredSiblings[currentSiblingIndex + 1];
+        const nextSibling = siblings[currentSiblingIndex + 1];
+        const nextId = nextSibling ? nextSibling.id : null;
 
-        const newId = MainCardIdHelper.generateSiblingId(
-            currentId,
-            nextSiblingFile ? nextSiblingFile.id : null
+        const newId = this.findFreeSiblingId(box, currentId, nextId);
+        if (newId) return { id: newId, rebalance: [] };
+
+        // 放入下一层级：作为当前主卡的最后一个子主卡，阅读顺序上仍紧跟当前主卡的分支
+        const children = cardIndex.getChildren(box, currentId);
+        const lastChild = children[children.length - 1];
+        const deeperId = lastChild
+            ? this.findFreeSiblingId(box, lastChild.id, null)
+            : this.findFreeChildId(box, currentId, null);
+        return this.resolveExhaustedGap(box, siblings, deeperId, plan =>
+            MainCardIdHelper.generateSiblingId(plan.get(currentId) ?? currentId, nextId && (plan.get(nextId) ?? nextId))
         );
+    }
 
-        const parent = currentFile.parent;
-        if (!parent) throw new Error('无法获取父文件夹');
-        await this.createNewMainCard(newId, parent);
+    // 父主卡的第一个子主卡 ID；编号用尽时询问处理方式，取消时返回 null
+    async generateChildCardId(parentFile: TFile): Promise<NewCardId | null> {
+        const cardIndex = this.plugin.cardIndex;
+        const entry = cardIndex.getEntry(parentFile);
+        if (!entry) throw new Error('找不到父主卡');
+        const { box, id: parentId } = entry;
+
+        // 子主卡按编号排序，取最小编号的那个
+        const children = cardIndex.getChildren(box, parentId);
+        const firstChildId = children.length > 0 ? children[0].id : null;
+
+        const newId = this.findFreeChildId(box, parentId, firstChildId);
+        if (newId) return { id: newId, rebalance: [] };
+
+        // 放入下一层级：作为第一个子主卡的第一个子主卡
+        const grandchildren = cardIndex.getChildren(box, firstChildId as string);
+        const firstGrandchildId = grandchildren.length > 0 ? grandchildren[0].id : null;
+        const deeperId = this.findFreeChildId(box, firstChildId as string, firstGrandchildId);
+        return this.resolveExhaustedGap(box, children, deeperId, plan =>
+            MainCardIdHelper.generateChildId(parentId, plan.get(firstChildId as string) ?? firstChildId)
+        );
     }
 
-    async createNewChildCard(parentFile: TFile): Promise<void> {
-        const files = await this.getSortedMainCards();
-        const parentId = this.getCardId(parentFile);
-        
-        const parentIndex = files.findIndex(f => f.path === parentFile.path);
-        if (parentIndex === -1) throw new Error('找不到父主卡');
-
-        // 获取所有子主卡
-        const childFiles = files.map(f => ({
-            file: f,
-            id: this.getCardId(f)
+    // 在 currentId 和 nextId 之间找一个未退役的兄弟编号，退役编号视为仍被占用；没有下一个兄弟时接在最后一个退役编号之后
+    private findFreeSiblingId(box: MainBoxConfig, currentId: string, nextId: string | null): string | null {
+        const parentId = MainCardIdHelper.getParentId(currentId);
+        const retiredIds = this.getRetiredIds(box, parentId)
+            .filter(id => MainCardIdHelper.compareIds(id, currentId) > 0 && (!nextId || MainCardIdHelper.compareIds(id, nextId) < 0));
+        if (!nextId) {
+            return MainCardIdHelper.generateSiblingId(retiredIds[retiredIds.length - 1] ?? currentId, null);
+        }
+
+        const bounds = [currentId, ...retiredIds, nextId];
+        for (let i = 0; i < bounds.length - 1; i++) {
+            if (!MainCardIdHelper.isSiblingGapExhausted(bounds[i], bounds[i + 1])) {
+                return MainCardIdHelper.generateSiblingId(bounds[i], bounds[i + 1]);
+            }
+        }
+        return null;
+    }
+
+    // 在第一个子主卡之前找一个未退役的子编号；没有子主卡时接在最后一个退役的子编号之后
+    private findFreeChildId(box: MainBoxConfig, parentId: string, firstChildId: string | null): string | null {
+        const retiredIds = this.getRetiredIds(box, parentId)
+            .filter(id => !firstChildId || MainCardIdHelper.compareIds(id, firstChildId) < 0);
+        if (!firstChildId && retiredIds.length > 0) {
+            return MainCardIdHelper.generateSiblingId(retiredIds[retiredIds.length - 1], null);
+        }
+
+        const bounds = firstChildId ? [...retiredIds, firstChildId] : retiredIds;
+        if (bounds.length === 0) return MainCardIdHelper.generateChildId(parentId, null);
+        if (!MainCardIdHelper.isChildGapExhausted(bounds[0])) {
+            return MainCardIdHelper.generateChildId(parentId, bounds[0]);
+        }
+        for (let i = 0; i < bounds.length - 1; i++) {
+            if (!MainCardIdHelper.isSiblingGapExhausted(bounds[i], bounds[i + 1])) {
+                return MainCardIdHelper.generateSiblingId(bounds[i], bounds[i + 1]);
+            }
+        }
+        return null;
+    }
+
+    // 同一父级下的退役编号，按 ID 排序
+    private getRetiredIds(box: MainBoxConfig, parentId: string | null): string[] {
+        return this.plugin.retiredIdRegistry.getRetiredIds(box)
+            .map(({ id }) => id)
+            .filter(id => MainCardIdHelper.isValidId(id) && MainCardIdHelper.getParentId(id) === parentId)
+            .sort((a, b) => MainCardIdHelper.compareIds(a, b));
+    }
+
+    // 收件箱中的 Markdown 笔记（不在任何主盒中）
+    isInboxNote(file: TAbstractFile): file is TFile {
+        const inboxPath = normalizePath(this.plugin.settings.inboxPath.trim());
+        if (!inboxPath || inboxPath === '/') return false;
+        return file instanceof TFile && file.extension === 'md'
+            && file.path.startsWith(inboxPath + '/')
+            && !this.plugin.cardIndex.isMainCardFile(file);
+    }
+
+    // 将收件箱笔记归档为目标主卡的子主卡或其后的兄弟主卡：写入 ID 属性，移动并重命名到目标主卡所在的文件夹
+    async archiveInboxNote(file: TFile, target: MoveTarget): Promise<TFile | null> {
+        if (!this.isInboxNote(file)) throw new Error('笔记不在收件箱中');
+        const folder = target.entry.file.parent;
+        if (!folder) throw new Error('无法获取父文件夹');
+        const { box } = target.entry;
+
+        const { vault, fileManager, metadataCache } = this.plugin.app;
+        const journal = this.plugin.journal;
+        // 编号用尽时的重排和归档记录为同一次操作
+        const id = await journal.record(`归档 ${file.basename}`, async () => {
+            const newCardId = target.mode === 'child'
+                ? await this.generateChildCardId(target.entry.file)
+                : await this.generateSiblingCardId(target.entry.file);
+            if (!newCardId) return null;
+            // 先按重排后的编号检查，检查失败时不重排
+            const { id, rebalance } = newCardId;
+            const rebalanced = new Set(rebalance.map(({ file }) => file));
+            if (this.plugin.cardIndex.getCardsById(box, id).some(({ file }) => !rebalanced.has(file))
+                || rebalance.some(({ newId }) => newId === id)) {
+                throw new Error(`ID 已被占用：${id}`);
+            }
+            const newPath = normalizePath(folder.path + '/' + this.formatFileName(id, file.basename) + '.md');
+            if (vault.getAbstractFileByPath(newPath)) throw new Error(`文件已存在：${newPath}`);
+            await this.applyRebalance(rebalance);
+
+            await this.plugin.canvasManager.withSyncSuspended(async () => {
+                // Obsidian 未开启自动更新链接时，由插件在移动后改写链接，再写入 ID 属性
+                const backlinks = vault.getConfig?.('alwaysUpdateLinks') ? [] : this.collectBacklinks(new Map([[file, newPath]]));
+                const oldPath = file.path;
+                await fileManager.renameFile(file, newPath);
+                journal.recordRename(oldPath, newPath, { newId: id });
+                await this.rewriteBacklinks(backlinks);
+                const oldValue = metadataCache.getFileCache(file)?.frontmatter?.[box.idProperty];
+                await fileManager.processFrontMatter(file, (frontmatter) => {
+                    frontmatter[box.idProperty] = id;
+                });
+                journal.recordProperty(file, box.idProperty, oldValue, id);
+                await this.waitForCardIds([{ file, oldId: id, newId: id }]);
+            });
+            return id;
+        });
+        if (!id) return null;
+        // 按移入主盒的新主卡同步知识树和结构笔记
+        this.plugin.canvasManager.handleCardRenamed(file, undefined);
+        new Notice(`已归档为主卡：${id}`);
+        return file;
+    }
+
+    // 列出同一主盒中可作为移动目标的主卡（排除被移动的分支本身）
+    async getMoveTargets(file: TFile): Promise<MoveTarget[]> {
+        const cardIndex = this.plugin.cardIndex;
+        const entry = cardIndex.getEntry(file);
+        if (!entry) throw new Error('找不到当前主卡');
+        const rootId = entry.id;
+        const targets: MoveTarget[] = [];
+        cardIndex.getEntries(entry.box)
+            .filter(({ id }) => !MainCardIdHelper.isInSubtree(id, rootId))
+            .forEach(entry => {
+                targets.push({ mode: 'child', entry });
+                targets.push({ mode: 'after', entry });
+            });
+        return targets;
+    }
+
+    // 将主卡及其子孙主卡移动到新位置，重新分配 ID
+    async moveCardSubtree(file: TFile, target: MoveTarget): Promise<void> {
+        const cardIndex = this.plugin.cardIndex;
+        const entry = cardIndex.getEntry(file);
+        if (!entry) throw new Error('找不到当前主卡');
+        const { box, id: oldRootId } = entry;
+        if (target.entry.box.path !== box.path) throw new Error('不能移动到其他主盒');
+        const subtree = cardIndex.getSubtree(box, oldRootId);
+        const isOutsideSubtree = ({ id }: MainCardEntry) => !MainCardIdHelper.isInSubtree(id, oldRootId);
+        if (MainCardIdHelper.isInSubtree(target.entry.id, oldRootId)) {
+            throw new Error('不能移动到自身或子孙主卡下');
+        }
+
+        let candidate: string | null;
+        let nextId: string | null = null;
+        if (target.mode === 'child') {
+            // 追加为目标主卡的最后一个子主卡
+            const children = cardIndex.getChildren(box, target.entry.id).filter(isOutsideSubtree);
+            const lastChild = children[children.length - 1];
+            candidate = lastChild
+                ? this.findFreeSiblingId(box, lastChild.id, null)
+                : this.findFreeChildId(box, target.entry.id, null);
+        } else {
+            const siblings = cardIndex.getSiblings(box, target.entry.id).filter(isOutsideSubtree);
+            const index = siblings.findIndex(({ id }) => id === target.entry.id);
+            const next = siblings[index + 1];
+            nextId = next ? next.id : null;
+            candidate = this.findFreeSiblingId(box, target.entry.id, nextId);
+        }
+        // 子孙主卡的新 ID 同样不能是退役编号，否则继续向后寻找
+        const registry = this.plugin.retiredIdRegistry;
+        while (candidate && candidate !== oldRootId
+            && subtree.some(({ id }) => registry.isRetired(box, MainCardIdHelper.replaceRoot(id, oldRootId, candidate as string)))) {
+            candidate = this.findFreeSiblingId(box, candidate, nextId);
+        }
+        if (!candidate) throw new Error(`${target.entry.id} 之后已无可用编号`);
+        const newRootId = candidate;
+        if (newRootId === oldRootId) return;
+
+        const changes: IdChange[] = subtree.map(({ file, id }) => ({
+            file,
+            oldId: id,
+            newId: MainCardIdHelper.replaceRoot(id, oldRootId, newRootId)
         }));
+        const conflict = changes.find(({ newId }) => cardIndex.getCardsById(box, newId).some(isOutsideSubtree));
+        if (conflict) throw new Error(`ID 已被占用：${conflict.newId}`);
+
+        await this.plugin.journal.record(`移动主卡 ${oldRootId}`, () => this.applyIdChanges(changes));
+        new Notice(`已将 ${oldRootId} 移动为 ${newRootId}（共 ${changes.length} 张主卡）`);
+    }
+
+    // 修改 ID 属性前，为主盒中的主卡写入新属性：从旧属性复制或从文件名开头读取
+    // 返回写入的 ID，切换属性后可据此等待元数据缓存刷新
+    // 不写入操作日志：撤销时无法同时恢复主盒设置中的 ID 属性
+    async migrateIdProperty(box: MainBoxConfig, newProperty: string, source: Exclude<IdPropertyMigration, 'none'>): Promise<IdChange[]> {
+        const { metadataCache, fileManager } = this.plugin.app;
+        const changes: IdChange[] = [];
+        for (const { file, id } of this.plugin.cardIndex.getEntries(box)) {
+            const frontmatter = metadataCache.getFileCache(file)?.frontmatter;
+            const value = source === 'property' ? frontmatter?.[box.idProperty] : MainCardIdHelper.matchLeadingId(file.basename);
+            if (value === undefined || value === null || value === '') continue;
+            if (frontmatter?.[newProperty] !== value) {
+                await fileManager.processFrontMatter(file, (fm) => {
+                    fm[newProperty] = value;
+                });
+            }
+            changes.push({ file, oldId: id, newId: String(value) });
+        }
+        return changes;
+    }
 
-        // 查找所有子主卡，按编号数值排序，取最小编号的那个
-        const filteredChildren = childFiles.filter(({ id }, index) => {
-            return index > parentIndex && id.startsWith(parentId + '-');
+    // 批量修改主卡 ID：同步更新 ID 属性，重命名以 ID 命名的文件，改写指向它们的链接，并刷新知识树
+    async applyIdChanges(changes: IdChange[]): Promise<void> {
+        const canvasManager = this.plugin.canvasManager;
+        await this.plugin.journal.record('修改主卡 ID', async () => {
+            await canvasManager.withSyncSuspended(() => this.writeIdChanges(changes));
+            await canvasManager.refreshAfterIdChanges(changes);
         });
+    }
+
+    private async writeIdChanges(changes: IdChange[]): Promise<void> {
+        const { vault, metadataCache, fileManager } = this.plugin.app;
+        const journal = this.plugin.journal;
+        const renames = new Map<TFile, string>();
+        const renameChanges = new Map<TFile, IdChange>();
+        const frontmatterChanges: IdChange[] = [];
+        const changedPaths = new Set(changes.map(({ file }) => file.path));
+
+        for (const change of changes) {
+            const { file, oldId, newId } = change;
+            const idProperty = this.plugin.cardIndex.getBoxForFile(file)?.idProperty;
+            const frontmatter = metadataCache.getFileCache(file)?.frontmatter;
+            if (idProperty && frontmatter && frontmatter[idProperty] !== undefined) {
+                frontmatterChanges.push(change);
+            }
+
+            let newBasename: string | null = null;
+            if (file.basename === oldId) {
+                newBasename = newId;
+            } else if (file.basename.startsWith(oldId + ' ')) {
+                newBasename = newId + file.basename.slice(oldId.length);
+            }
+            if (newBasename === null) continue;
+
+            const targetPath = this.siblingPath(file, newBasename + '.' + file.extension);
+            const existing = vault.getAbstractFileByPath(targetPath);
+            if (existing && !changedPaths.has(existing.path)) {
+                throw new Error(`目标文件已存在：${targetPath}`);
+            }
+            renames.set(file, targetPath);
+            renameChanges.set(file, change);
+        }
 
-        let firstChildFile = null;
-        if (filteredChildren.length > 0) {
-            filteredChildren.sort((a, b) => {
-                const aParts = MainCardIdHelper.parseId(a.id);
-                const bParts = MainCardIdHelper.parseId(b.id);
-                return aParts[aParts.length - 1] - bParts[bParts.length - 1];
+        // Obsidian 未开启自动更新链接时，由插件在重命名后改写链接；链接位置在修改任何文件之前读取
+        const backlinks = vault.getConfig?.('alwaysUpdateLinks') ? [] : this.collectBacklinks(renames);
+
+        // 先改为临时文件名再改为目标文件名，避免新旧编号互相冲突
+        const renameList = Array.from(renames.entries());
+        for (const [index, [file]] of renameList.entries()) {
+            const oldPath = file.path;
+            await fileManager.renameFile(file, this.siblingPath(file, `zk-tmp-${index}-${file.name}`));
+            journal.recordRename(oldPath, file.path);
+        }
+        for (const [file, newPath] of renameList) {
+            const oldPath = file.path;
+            await fileManager.renameFile(file, newPath);
+            journal.recordRename(oldPath, newPath, renameChanges.get(file));
+        }
+        await this.rewriteBacklinks(backlinks);
+
+        // 改写链接之后再修改 ID 属性，避免链接的偏移量失效
+        for (const { file, newId } of frontmatterChanges) {
+            const idProperty = this.plugin.cardIndex.getBoxForFile(file)?.idProperty as string;
+            const oldValue = metadataCache.getFileCache(file)?.frontmatter?.[idProperty];
+            await fileManager.processFrontMatter(file, (fm) => {
+                fm[idProperty] = newId;
             });
-            firstChildFile = filteredChildren[0];
+            journal.recordProperty(file, idProperty, oldValue, newId);
         }
 
-        const newId = MainCardIdHelper.generateChildId(
-            parentId,
-            firstChildFile ? firstChildFile.id : null
-        );
+        await this.waitForCardIds(frontmatterChanges);
+    }
 
-        const parent = parentFile.parent;
-        if (!parent) throw new Error('无法获取父文件夹');
-        await this.createNewMainCard(newId, parent);
+    private siblingPath(file: TFile, name: string): string {
+        const folderPath = file.parent ? file.parent.path : '';
+        return (folderPath && folderPath !== '/' ? folderPath + '/' : '') + name;
+    }
+
+    // 指向待重命名文件的链接和嵌入，需在修改任何文件之前读取，重命名后交给 rewriteBacklinks
+    private collectBacklinks(renames: Map<TFile, string>): Backlinks[] {
+        if (renames.size === 0) return [];
+        const { metadataCache, vault } = this.plugin.app;
+        const targetPaths = new Set(Array.from(renames.keys()).map(file => file.path));
+
+        const backlinks: Backlinks[] = [];
+        for (const sourcePath of Object.keys(metadataCache.resolvedLinks)) {
+            const destinations = Object.keys(metadataCache.resolvedLinks[sourcePath]);
+            if (!destinations.some(path => targetPaths.has(path))) continue;
+            const source = vault.getAbstractFileByPath(sourcePath);
+            if (!(source instanceof TFile)) continue;
+
+            const cache = metadataCache.getFileCache(source);
+            const links: Backlinks['links'] = [];
+            for (const link of [...cache?.links ?? [], ...cache?.embeds ?? []]) {
+                const target = metadataCache.getFirstLinkpathDest(getLinkpath(link.link), sourcePath);
+                if (target && renames.has(target)) links.push({ link, target });
+            }
+            if (links.length > 0) backlinks.push({ source, links });
+        }
+        return backlinks;
+    }
+
+    // 按文件的新路径重新生成链接，保留子路径、别名和嵌入标记；链接格式遵循 Obsidian 的链接设置
+    private async rewriteBacklinks(backlinks: Backlinks[]): Promise<void> {
+        const { fileManager } = this.plugin.app;
+        for (const { source, links } of backlinks) {
+            // 从后往前替换，保证前面链接的偏移量不变
+            links.sort((a, b) => b.link.position.start.offset - a.link.position.start.offset);
+            await this.plugin.journal.process(source, (content) => {
+                for (const { link, target } of links) {
+                    const { start, end } = link.position;
+                    if (content.slice(start.offset, end.offset) !== link.original) continue;
+                    const { subpath } = parseLinktext(link.link);
+                    const isEmbed = link.original.startsWith('!');
+                    // 维基链接带 | 或 Markdown 链接时，链接文字是别名
+                    const hasAlias = link.original.includes('|') || /^!?\[[^[]/.test(link.original);
+                    const newLink = fileManager.generateMarkdownLink(target, source.path, subpath || undefined,
+                        hasAlias ? link.displayText : undefined);
+                    content = content.slice(0, start.offset) + (isEmbed ? '!' : '') + newLink + content.slice(end.offset);
+                }
+                return content;
+            });
+        }
+    }
+
+    // 等待元数据缓存解析出新的 ID 属性，避免后续读取到旧 ID
+    waitForCardIds(changes: IdChange[], timeout = 2000): Promise<void> {
+        const isDone = () => changes.every(({ file, newId }) => this.getCardId(file) === newId);
+        if (isDone()) return Promise.resolve();
+        return new Promise(resolve => {
+            const metadataCache = this.plugin.app.metadataCache;
+            const finish = () => {
+                metadataCache.offref(ref);
+                window.clearTimeout(timer);
+                resolve();
+            };
+            const ref = metadataCache.on('changed', () => {
+                if (isDone()) finish();
+            });
+            const timer = window.setTimeout(finish, timeout);
+        });
+    }
+
+    // 返回所选方式对应的新 ID，取消时返回 null；选择重排时只返回重排方案，不修改文件
+    // 步长为 1 时（如卢曼编号）相邻编号之间总是没有空间，重排无济于事，直接放入下一层级
+    private async resolveExhaustedGap(
+        box: MainBoxConfig,
+        siblings: MainCardEntry[],
+        deeperId: string | null,
+        generateAfterRebalance: (plan: Map<string, string>) => string
+    ): Promise<NewCardId | null> {
+        if (MainCardIdHelper.getScheme().step < 2 && deeperId) return { id: deeperId, rebalance: [] };
+        let changes: IdChange[] | null = null;
+        let rebalancedId: string | null = null;
+        let plan: Map<string, string> | null = null;
+        const isTopLevel = siblings.length > 0 && MainCardIdHelper.getDepth(siblings[0].id) === 1;
+        if (!isTopLevel) {
+            const entries = this.plugin.cardIndex.getEntries(box);
+            plan = MainCardIdHelper.planRebalance(siblings.map(({ id }) => id), entries.map(({ id }) => id),
+                id => this.plugin.retiredIdRegistry.isRetired(box, id));
+            changes = entries
+                .filter(({ id }) => plan!.has(id))
+                .map(({ file, id }) => ({ file, oldId: id, newId: plan!.get(id) as string }));
+            try {
+                rebalancedId = generateAfterRebalance(plan);
+            } catch (error) {
+                // 步长过小时（如卢曼编号）重排后仍无可用编号
+                rebalancedId = null;
+            }
+            if (rebalancedId && this.plugin.retiredIdRegistry.isRetired(box, rebalancedId)) {
+                rebalancedId = null;
+            }
+        }
+
+        const choice = await new IdGapModal(this.plugin.app, changes, rebalancedId, deeperId).choose();
+        if (choice === 'rebalance' && changes && rebalancedId) {
+            return { id: rebalancedId, rebalance: changes };
+        } else if (choice === 'deeper' && deeperId) {
+            return { id: deeperId, rebalance: [] };
+        }
+        return null;
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,251 @@
+import { ItemView, Menu, TFile, ViewStateResult, WorkspaceLeaf, setIcon } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { MainBoxConfig, MainCardEntry } from '@/types';
+import { MainCardIdHelper } from '@/modules/id-helper';
+
+export const HIERARCHY_VIEW_TYPE = 'zettelkasten-hierarchy';
+
+// 保存在工作区布局中的视图状态：展开的主卡 ID
+interface HierarchyViewState {
+    expanded: string[];
+}
+
+interface VisibleItem {
+    entry: MainCardEntry;
+    el: HTMLElement;
+}
+
+// 主盒层级视图：按主卡 ID 层级以可折叠的树展示主盒
+export class HierarchyView extends ItemView {
+    private expanded: Set<string> = new Set();
+    private visibleItems: VisibleItem[] = [];
+    private focusedPath: string | null = null;
+    private treeEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, private plugin: ZettelkastenPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return HIERARCHY_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return '主盒层级';
+    }
+
+    getIcon(): string {
+        return 'list-tree';
+    }
+
+    async onOpen() {
+        this.addAction('crosshair', '定位当前主卡', () => this.revealActiveFile());
+        this.addAction('chevrons-down-up', '全部折叠', () => {
+            this.expanded.clear();
+            this.saveExpandedState();
+            this.render();
+        });
+
+        this.treeEl = this.contentEl.createDiv({ cls: 'nav-files-container' });
+        this.treeEl.tabIndex = 0;
+        this.registerDomEvent(this.treeEl, 'keydown', (evt) => this.handleKeydown(evt));
+        this.render();
+    }
+
+    getState(): Record<string, unknown> {
+        const state: HierarchyViewState = { expanded: Array.from(this.expanded) };
+        return { ...super.getState(), ...state };
+    }
+
+    async setState(state: unknown, result: ViewStateResult): Promise<void> {
+        const expanded = (state as Partial<HierarchyViewState> | null)?.expanded;
+        if (Array.isArray(expanded)) {
+            this.expanded = new Set(expanded.map(String));
+            this.render();
+        }
+        await super.setState(state, result);
+    }
+
+    render() {
+        if (!this.treeEl) return;
+        const scrollTop = this.treeEl.scrollTop;
+        this.treeEl.empty();
+        this.visibleItems = [];
+
+        // 有多个主盒时按主盒分组
+        const boxes = this.plugin.cardIndex.getBoxes();
+        for (const box of boxes) {
+            let boxEl = this.treeEl;
+            if (boxes.length > 1) {
+                const groupEl = this.treeEl.createDiv({ cls: 'tree-item nav-folder' });
+                groupEl.createDiv({ cls: 'tree-item-self nav-folder-title' })
+                    .createDiv({ cls: 'tree-item-inner nav-folder-title-content', text: box.path });
+                boxEl = groupEl.createDiv({ cls: 'tree-item-children nav-folder-children' });
+            }
+            this.renderBox(boxEl, box);
+        }
+        this.treeEl.scrollTop = scrollTop;
+    }
+
+    // 展开当前主卡的所有祖先并滚动到当前主卡
+    revealActiveFile() {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) return;
+        const entry = this.plugin.cardIndex.getEntry(file);
+        if (!entry) return;
+
+        let parentId = MainCardIdHelper.getParentId(entry.id);
+        while (parentId !== null) {
+            this.expanded.add(this.getExpandKey(entry.box, parentId));
+            parentId = MainCardIdHelper.getParentId(parentId);
+        }
+        this.saveExpandedState();
+        this.focusedPath = file.path;
+        this.render();
+        this.visibleItems.find(item => item.entry.file === file)?.el.scrollIntoView({ block: 'center' });
+    }
+
+    // 顶层主卡以及父主卡缺失的主卡作为树的根
+    private renderBox(parentEl: HTMLElement, box: MainBoxConfig) {
+        const cardIndex = this.plugin.cardIndex;
+        const roots = cardIndex.getEntries(box).filter(({ id }) => {
+            const parentId = MainCardIdHelper.getParentId(id);
+            return parentId === null || !cardIndex.getCard(box, parentId);
+        });
+        for (const entry of roots) {
+            this.renderItem(parentEl, entry);
+        }
+    }
+
+    // 不同主盒的 ID 可能相同，展开状态按主盒区分
+    private getExpandKey(box: MainBoxConfig, id: string): string {
+        return `${box.path}|${id}`;
+    }
+
+    private renderItem(parentEl: HTMLElement, entry: MainCardEntry) {
+        const children = this.plugin.cardIndex.getChildren(entry.box, entry.id);
+        const isExpanded = this.expanded.has(this.getExpandKey(entry.box, entry.id));
+        const activeFile = this.app.workspace.getActiveFile();
+
+        const itemEl = parentEl.createDiv({ cls: 'tree-item nav-file' });
+        const selfEl = itemEl.createDiv({ cls: 'tree-item-self nav-file-title is-clickable' });
+        if (children.length > 0) selfEl.addClass('mod-collapsible');
+        if (activeFile === entry.file) selfEl.addClass('is-active');
+        if (this.focusedPath === entry.file.path) selfEl.addClass('has-focus');
+
+        if (children.length > 0) {
+            const iconEl = selfEl.createDiv({ cls: 'tree-item-icon collapse-icon' });
+            if (!isExpanded) iconEl.addClass('is-collapsed');
+            setIcon(iconEl, 'right-triangle');
+            iconEl.addEventListener('click', (evt) => {
+                evt.stopPropagation();
+                this.toggle(entry);
+            });
+        }
+
+        selfEl.createDiv({ cls: 'tree-item-inner nav-file-title-content', text: this.getLabel(entry) });
+        if (children.length > 0) {
+            selfEl.createDiv({ cls: 'tree-item-flair-outer' })
+                .createSpan({ cls: 'tree-item-flair', text: String(children.length) });
+        }
+
+        selfEl.addEventListener('click', (evt) => {
+            this.focusedPath = entry.file.path;
+            this.app.workspace.getLeaf(evt.ctrlKey || evt.metaKey).openFile(entry.file);
+        });
+        selfEl.addEventListener('contextmenu', (evt) => {
+            evt.preventDefault();
+            this.openContextMenu(entry.file, evt);
+        });
+
+        this.visibleItems.push({ entry, el: selfEl });
+
+        if (children.length > 0 && isExpanded) {
+            const childrenEl = itemEl.createDiv({ cls: 'tree-item-children' });
+            for (const child of children) {
+                this.renderItem(childrenEl, child);
+            }
+        }
+    }
+
+    private getLabel(entry: MainCardEntry): string {
+        if (this.plugin.settings.explorerDisplayMode === 'tree' || entry.file.basename === entry.id) {
+            return entry.file.basename;
+        }
+        return `${entry.id}: ${entry.file.basename}`;
+    }
+
+    // 复用文件菜单，主卡的新建兄弟/子主卡等菜单项由插件的 file-menu 监听器添加
+    private openContextMenu(file: TFile, evt: MouseEvent) {
+        const menu = new Menu();
+        this.app.workspace.trigger('file-menu', menu, file, HIERARCHY_VIEW_TYPE, this.leaf);
+        menu.showAtMouseEvent(evt);
+    }
+
+    private toggle(entry: MainCardEntry, expand?: boolean) {
+        const key = this.getExpandKey(entry.box, entry.id);
+        const shouldExpand = expand ?? !this.expanded.has(key);
+        if (shouldExpand === this.expanded.has(key)) return;
+        if (shouldExpand) {
+            this.expanded.add(key);
+        } else {
+            this.expanded.delete(key);
+        }
+        this.saveExpandedState();
+        this.render();
+    }
+
+    private saveExpandedState() {
+        this.app.workspace.requestSaveLayout();
+    }
+
+    private handleKeydown(evt: KeyboardEvent) {
+        if (this.visibleItems.length === 0) return;
+        let index = this.visibleItems.findIndex(item => item.entry.file.path === this.focusedPath);
+        const current = index === -1 ? null : this.visibleItems[index];
+
+        switch (evt.key) {
+            case 'ArrowDown':
+                index = Math.min(index + 1, this.visibleItems.length - 1);
+                break;
+            case 'ArrowUp':
+                index = Math.max(index - 1, 0);
+                break;
+            case 'ArrowRight':
+                if (current && this.plugin.cardIndex.getChildren(current.entry.box, current.entry.id).length > 0) {
+                    if (!this.expanded.has(this.getExpandKey(current.entry.box, current.entry.id))) {
+                        this.toggle(current.entry, true);
+                    } else {
+                        index += 1;
+                    }
+                }
+                break;
+            case 'ArrowLeft':
+                if (current) {
+                    if (this.expanded.has(this.getExpandKey(current.entry.box, current.entry.id))) {
+                        this.toggle(current.entry, false);
+                    } else {
+                        const parent = this.plugin.cardIndex.getParent(current.entry.box, current.entry.id);
+                        const parentIndex = parent ? this.visibleItems.findIndex(item => item.entry === parent) : -1;
+                        if (parentIndex !== -1) index = parentIndex;
+                    }
+                }
+                break;
+            case 'Enter':
+                if (current) this.app.workspace.getLeaf(evt.ctrlKey || evt.metaKey).openFile(current.entry.file);
+                break;
+            default:
+                return;
+        }
+        evt.preventDefault();
+        this.setFocus(this.visibleItems[Math.max(index, 0)]);
+    }
+
+    private setFocus(item: VisibleItem | undefined) {
+        if (!item) return;
+        this.visibleItems.forEach(({ el }) => el.removeClass('has-focus'));
+        this.focusedPath = item.entry.file.path;
+        item.el.addClass('has-focus');
+        item.el.scrollIntoView({ block: 'nearest' });
+    }
+}
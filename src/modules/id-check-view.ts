@@ -0,0 +1,97 @@
+import { ItemView, Notice, WorkspaceLeaf } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { IdIssue, IdIssueType } from '@/types';
+
+export const ID_CHECK_VIEW_TYPE = 'zettelkasten-id-check';
+
+const ISSUE_TYPE_LABELS: Record<IdIssueType, string> = {
+    'duplicate': 'ID 重复',
+    'invalid-segment': '分段格式无效',
+    'orphan': '缺少父主卡',
+    'top-level-format': '顶层 ID 格式',
+    'basename-mismatch': '文件名与属性不一致',
+    'dead-index-entry': '索引条目失效'
+};
+
+// 主盒 ID 检查报告视图
+export class IdCheckView extends ItemView {
+    private issues: IdIssue[] = [];
+
+    constructor(leaf: WorkspaceLeaf, private plugin: ZettelkastenPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return ID_CHECK_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return '主盒 ID 检查';
+    }
+
+    getIcon(): string {
+        return 'shield-check';
+    }
+
+    async onOpen() {
+        await this.refresh();
+    }
+
+    async refresh() {
+        this.issues = await this.plugin.idChecker.check();
+        this.render();
+    }
+
+    private render() {
+        const container = this.contentEl;
+        container.empty();
+
+        const header = container.createDiv({ cls: 'nav-header' });
+        header.createEl('span', { text: this.issues.length === 0 ? '未发现问题' : `发现 ${this.issues.length} 个问题` });
+        header.createEl('button', { text: '重新检查' }).addEventListener('click', () => this.refresh());
+
+        (Object.keys(ISSUE_TYPE_LABELS) as IdIssueType[]).forEach(type => {
+            const issues = this.issues.filter(issue => issue.type === type);
+            if (issues.length === 0) return;
+
+            container.createEl('h4', { text: `${ISSUE_TYPE_LABELS[type]}（${issues.length}）` });
+            for (const issue of issues) {
+                const itemEl = container.createDiv({ cls: 'tree-item-self is-clickable' });
+                itemEl.createDiv({ cls: 'tree-item-inner', text: `${issue.id} · ${issue.file.path}` });
+                itemEl.createDiv({ cls: 'tree-item-flair-outer', text: issue.message });
+                itemEl.addEventListener('click', () => {
+                    this.app.workspace.getLeaf(false).openFile(issue.file);
+                });
+                this.renderQuickFix(itemEl, issue);
+            }
+        });
+    }
+
+    private renderQuickFix(itemEl: HTMLElement, issue: IdIssue) {
+        let label: string | null = null;
+        let fix: (() => Promise<void>) | null = null;
+        if (issue.type === 'orphan') {
+            label = `创建父主卡 ${issue.relatedId}`;
+            fix = () => this.plugin.idChecker.createMissingParent(issue);
+        } else if (issue.type === 'basename-mismatch') {
+            label = '从文件名同步属性';
+            fix = () => this.plugin.idChecker.syncPropertyFromBasename(issue);
+        } else if (issue.type === 'dead-index-entry') {
+            label = '从索引中移除';
+            fix = () => this.plugin.indexManager.removeIndexEntry(issue.file, issue.id);
+        }
+        if (!label || !fix) return;
+
+        const run = fix;
+        itemEl.createEl('button', { text: label }).addEventListener('click', async (evt) => {
+            evt.stopPropagation();
+            try {
+                await run();
+                // 等待元数据缓存刷新后再重新检查
+                window.setTimeout(() => this.refresh(), 300);
+            } catch (error) {
+                new Notice('修复失败：' + error.message);
+            }
+        });
+    }
+}
@@ -0,0 +1,80 @@
+import { TFile } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { IdIssue } from '@/types';
+import { MainCardIdHelper } from '@/modules/id-helper';
+
+// 按《主盒卡片分段数字ID规则》或所选编号方案检查主盒中的主卡 ID
+export class IdChecker {
+    constructor(private plugin: ZettelkastenPlugin) {}
+
+    async check(): Promise<IdIssue[]> {
+        const cardIndex = this.plugin.cardIndex;
+        const issues: IdIssue[] = [];
+
+        for (const { file, id, box } of cardIndex.getEntries()) {
+            // ID 重复（同一主盒内）
+            const duplicates = cardIndex.getCardsById(box, id);
+            if (duplicates.length > 1) {
+                issues.push({ type: 'duplicate', file, id, message: `ID 重复（共 ${duplicates.length} 张主卡）` });
+            }
+
+            // ID 必须符合当前编号方案
+            if (!MainCardIdHelper.isValidId(id)) {
+                issues.push({ type: 'invalid-segment', file, id, message: 'ID 不符合编号方案' });
+                continue;
+            }
+
+            // 顶层编号格式，如分段数字方案中的四位数字
+            if (MainCardIdHelper.getDepth(id) === 1) {
+                if (!MainCardIdHelper.isValidTopLevelId(id)) {
+                    const format = MainCardIdHelper.getScheme().topLevelFormat;
+                    issues.push({ type: 'top-level-format', file, id, message: `顶层 ID 不是${format}` });
+                }
+            } else {
+                const parentId = MainCardIdHelper.getParentId(id) as string;
+                if (!cardIndex.getCard(box, parentId)) {
+                    issues.push({ type: 'orphan', file, id, relatedId: parentId, message: `父主卡 ${parentId} 不存在` });
+                }
+            }
+
+            // 文件名中的 ID 与 ID 属性不一致
+            const basenameId = this.getBasenameId(file);
+            if (basenameId && basenameId !== id) {
+                issues.push({ type: 'basename-mismatch', file, id, relatedId: basenameId, message: `文件名 ID ${basenameId} 与属性 ID 不一致` });
+            }
+        }
+
+        // 关键词索引中指向已不存在 ID 的条目
+        issues.push(...await this.plugin.indexManager.checkIndexEntries());
+
+        return issues.sort((a, b) => MainCardIdHelper.compareIds(a.id, b.id));
+    }
+
+    // 文件名开头的 ID（如 "4111-10 标题" 中的 "4111-10"）
+    getBasenameId(file: TFile): string | null {
+        return MainCardIdHelper.matchLeadingId(file.basename);
+    }
+
+    // 快速修复：为孤儿主卡创建缺失的父主卡；父主卡的编号已退役时需先释放
+    async createMissingParent(issue: IdIssue): Promise<void> {
+        if (issue.type !== 'orphan' || !issue.relatedId) return;
+        const parent = issue.file.parent;
+        if (!parent) throw new Error('无法获取父文件夹');
+        const box = this.plugin.cardIndex.getBoxForFile(issue.file);
+        if (box && this.plugin.retiredIdRegistry.isRetired(box, issue.relatedId)) {
+            throw new Error(`${issue.relatedId} 是退役编号，请先在退役编号视图中释放`);
+        }
+        await this.plugin.fileManager.createNewMainCard(issue.relatedId, parent);
+    }
+
+    // 快速修复：用文件名中的 ID 覆盖 ID 属性
+    async syncPropertyFromBasename(issue: IdIssue): Promise<void> {
+        if (issue.type !== 'basename-mismatch' || !issue.relatedId) return;
+        const basenameId = issue.relatedId;
+        const box = this.plugin.cardIndex.getBoxForFile(issue.file);
+        if (!box) return;
+        await this.plugin.app.fileManager.processFrontMatter(issue.file, (frontmatter) => {
+            frontmatter[box.idProperty] = basenameId;
+        });
+    }
+}
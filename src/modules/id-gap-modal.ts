@@ -0,0 +1,71 @@
+import { App, Modal, Setting } from 'obsidian';
+import { IdChange } from '@/types';
+
+export type IdGapChoice = 'rebalance' | 'deeper';
+
+// 编号空间用尽时，预览重排方案并让用户选择处理方式
+export class IdGapModal extends Modal {
+    private choice: IdGapChoice | null = null;
+    private resolve: (choice: IdGapChoice | null) => void = () => {};
+
+    constructor(
+        app: App,
+        private changes: IdChange[] | null,
+        private rebalancedId: string | null,
+        private deeperId: string | null
+    ) {
+        super(app);
+    }
+
+    choose(): Promise<IdGapChoice | null> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('编号空间已用尽');
+        contentEl.createEl('p', { text: '相邻主卡之间已无可用编号，请选择处理方式。' });
+
+        if (this.changes) {
+            contentEl.createEl('h4', { text: `重排兄弟编号（${this.changes.length} 张主卡将被重命名）` });
+            const list = contentEl.createEl('ul');
+            for (const change of this.changes) {
+                list.createEl('li', { text: `${change.oldId} → ${change.newId}` });
+            }
+            if (this.rebalancedId) {
+                contentEl.createEl('p', { text: `重排后新主卡 ID：${this.rebalancedId}` });
+            } else {
+                contentEl.createEl('p', { text: '重排后仍无可用编号。' });
+            }
+        } else {
+            contentEl.createEl('p', { text: '顶层主卡不支持重排编号。' });
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('重排并创建')
+                .setCta()
+                .setDisabled(!this.changes || !this.rebalancedId)
+                .onClick(() => this.finish('rebalance')))
+            .addButton(button => button
+                .setButtonText(this.deeperId ? `放入下一层级：${this.deeperId}` : '无法放入下一层级')
+                .setDisabled(!this.deeperId)
+                .onClick(() => this.finish('deeper')))
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolve(this.choice);
+    }
+
+    private finish(choice: IdGapChoice) {
+        this.choice = choice;
+        this.close();
+    }
+}
@@ -1,69 +1,188 @@
+import { IdScheme, NumericIdScheme } from './id-scheme';
+
 export class MainCardIdHelper {
-    // 解析主卡 ID 的各个部分
-    static parseId(id: string | number): number[] {
-        // 如果是数字类型，直接返回包含该数字的数组
-        if (typeof id === 'number') {
-            return [id];
-        }
-        // 如果是字符串类型，按 '-' 分割并转换为数字
-        return id.split('-').map(part => parseInt(part));
+    // 当前使用的编号方案，由插件根据设置切换
+    private static scheme: IdScheme = new NumericIdScheme(10, 4);
+
+    static useScheme(scheme: IdScheme) {
+        this.scheme = scheme;
+    }
+
+    static getScheme(): IdScheme {
+        return this.scheme;
+    }
+
+    // 拆分主卡 ID 的各个层级，不符合编号方案的 ID 视为单个分段
+    static getSegments(id: string): string[] {
+        return this.scheme.split(id) ?? [id];
+    }
+
+    // ID 的层级数，顶层主卡为 1
+    static getDepth(id: string): number {
+        return this.getSegments(id).length;
+    }
+
+    static isValidId(id: string): boolean {
+        return this.scheme.split(id) !== null;
+    }
+
+    static isValidTopLevelId(id: string): boolean {
+        const segments = this.scheme.split(id);
+        return segments !== null && segments.length === 1 && this.scheme.isValidTopLevel(segments[0]);
+    }
+
+    // 文本开头的 ID（如 "4111-10 标题" 中的 "4111-10"）
+    static matchLeadingId(text: string): string | null {
+        const match = text.match(new RegExp(`^(${this.scheme.idPattern})(?:\\s|$)`));
+        return match ? match[1] : null;
+    }
+
+    static getFirstTopLevelId(): string {
+        return this.scheme.getFirstTopLevelId();
     }
 
     // 生成新的兄弟主卡 ID
     static generateSiblingId(currentId: string, nextId: string | null): string {
-        const currentParts = this.parseId(currentId);
+        const currentParts = this.getSegments(currentId);
+        const lastPart = currentParts[currentParts.length - 1];
         if (!nextId) {
-            // 如果没有下一个兄弟，在当前 ID 的最后一个数字上加 10
-            const lastPart = currentParts[currentParts.length - 1];
-            currentParts[currentParts.length - 1] = lastPart + 10;
-            return currentParts.join('-');
+            // 如果没有下一个兄弟，在当前 ID 的最后一段上加一个步长
+            currentParts[currentParts.length - 1] = this.scheme.formatSibling(lastPart, this.scheme.getOrdinal(lastPart) + this.scheme.step);
+            return this.scheme.join(currentParts);
         }
         
-        const nextParts = this.parseId(nextId);
+        const nextParts = this.getSegments(nextId);
         // 确保两个 ID 的层级相同
         if (currentParts.length !== nextParts.length) {
             throw new Error('当前主卡和下一个主卡的层级不同');
         }
 
+        if (this.isSiblingGapExhausted(currentId, nextId)) {
+            throw new Error('兄弟主卡之间已无可用编号');
+        }
+
         // 计算新 ID
-        const lastPart = Math.floor((currentParts[currentParts.length - 1] + nextParts[nextParts.length - 1]) / 2);
-        currentParts[currentParts.length - 1] = lastPart;
-        return currentParts.join('-');
+        const ordinal = Math.floor((this.scheme.getOrdinal(lastPart) + this.scheme.getOrdinal(nextParts[nextParts.length - 1])) / 2);
+        currentParts[currentParts.length - 1] = this.scheme.formatSibling(lastPart, ordinal);
+        return this.scheme.join(currentParts);
     }
 
     // 生成新的子主卡 ID
     static generateChildId(parentId: string, firstChildId: string | null): string {
+        const parentParts = this.getSegments(parentId);
         if (!firstChildId) {
-            return parentId + '-10';
+            return this.scheme.join([...parentParts, this.scheme.formatChild(parentParts, this.scheme.step)]);
         }
         
-        const parentParts = this.parseId(parentId);
-        const childParts = this.parseId(firstChildId);
+        const childParts = this.getSegments(firstChildId);
         
         // 确保子主卡确实是当前主卡的子主卡
         if (childParts.length !== parentParts.length + 1) {
             console.error('[ZK] 子主卡层级不正确', { parentParts, childParts });
             throw new Error('子主卡层级不正确');
         }
+        if (this.isChildGapExhausted(firstChildId)) {
+            throw new Error('第一个子主卡之前已无可用编号');
+        }
         // 取"0"和第一个子主卡编号的中间值
-        const newChildId = Math.floor(childParts[childParts.length - 1] / 2);
-        return parentId + '-' + newChildId;
+        const ordinal = Math.floor(this.scheme.getOrdinal(childParts[childParts.length - 1]) / 2);
+        return this.scheme.join([...parentParts, this.scheme.formatChild(parentParts, ordinal)]);
     }
 
-    // 比较两个分段 ID
+    // 判断两个相邻兄弟主卡之间是否还有可用编号
+    static isSiblingGapExhausted(currentId: string, nextId: string | null): boolean {
+        if (!nextId) return false;
+        const currentParts = this.getSegments(currentId);
+        const nextParts = this.getSegments(nextId);
+        return this.scheme.getOrdinal(nextParts[nextParts.length - 1]) - this.scheme.getOrdinal(currentParts[currentParts.length - 1]) <= 1;
+    }
+
+    // 判断第一个子主卡之前是否还有可用编号（-1、-0 之前无法再插入）
+    static isChildGapExhausted(firstChildId: string | null): boolean {
+        if (!firstChildId) return false;
+        const childParts = this.getSegments(firstChildId);
+        return this.scheme.getOrdinal(childParts[childParts.length - 1]) <= 1;
+    }
+
+    // 将同一父级下的兄弟主卡按步长重排，子孙主卡 ID 随之调整
+    // 主卡或其子孙主卡的新 ID 会落在 isRetired 的编号上时，跳过该序号
+    // 返回 旧 ID -> 新 ID 的映射，只包含发生变化的 ID
+    static planRebalance(siblingIds: string[], allIds: string[], isRetired: (id: string) => boolean = () => false): Map<string, string> {
+        const sortedSiblings = [...siblingIds].sort((a, b) => this.compareIds(a, b));
+        const siblingMap = new Map<string, string>();
+        let ordinal = 0;
+        for (const oldId of sortedSiblings) {
+            const segments = this.getSegments(oldId);
+            if (segments.length === 1) {
+                throw new Error('顶层主卡不支持重排编号');
+            }
+            const lastPart = segments[segments.length - 1];
+            const subtreeIds = allIds.filter(id => this.isInSubtree(id, oldId));
+            let newId: string;
+            do {
+                ordinal += this.scheme.step;
+                segments[segments.length - 1] = this.scheme.formatSibling(lastPart, ordinal);
+                newId = this.scheme.join(segments);
+            } while (isRetired(newId) || subtreeIds.some(id => isRetired(this.replaceRoot(id, oldId, newId))));
+            siblingMap.set(oldId, newId);
+        }
+
+        const changes = new Map<string, string>();
+        for (const id of allIds) {
+            for (const [oldId, newId] of siblingMap) {
+                if (this.isInSubtree(id, oldId)) {
+                    const renamedId = this.replaceRoot(id, oldId, newId);
+                    if (renamedId !== id) changes.set(id, renamedId);
+                    break;
+                }
+            }
+        }
+        return changes;
+    }
+
+    // 将 oldRootId 分支中的 ID 换到 newRootId 之下，保留各层级的序号
+    static replaceRoot(id: string, oldRootId: string, newRootId: string): string {
+        const segments = this.getSegments(newRootId);
+        for (const segment of this.getSegments(id).slice(this.getDepth(oldRootId))) {
+            // 层级类型可能随新位置变化（如卢曼编号中的数字层和字母层）
+            segments.push(this.scheme.formatChild(segments, this.scheme.getOrdinal(segment)));
+        }
+        return this.scheme.join(segments);
+    }
+
+    // 获取父主卡 ID，顶层主卡返回 null
+    static getParentId(id: string): string | null {
+        const segments = this.getSegments(id);
+        if (segments.length === 1) return null;
+        return this.scheme.join(segments.slice(0, -1));
+    }
+
+    // 判断 ID 是否属于以 rootId 为根的分支（包含根本身）
+    static isInSubtree(id: string, rootId: string): boolean {
+        if (id === rootId) return true;
+        const segments = this.getSegments(id);
+        const rootSegments = this.getSegments(rootId);
+        return segments.length > rootSegments.length && rootSegments.every((segment, index) => segments[index] === segment);
+    }
+
+    // 比较两个分段 ID，不符合编号方案的 ID 排在最后
     static compareIds(idA: string, idB: string): number {
-        const partsA = this.parseId(idA);
-        const partsB = this.parseId(idB);
+        const partsA = this.scheme.split(idA);
+        const partsB = this.scheme.split(idB);
+        if (!partsA || !partsB) {
+            if (partsA) return -1;
+            if (partsB) return 1;
+            return idA.localeCompare(idB);
+        }
 
         const minLength = Math.min(partsA.length, partsB.length);
 
         for (let i = 0; i < minLength; i++) {
-            if (partsA[i] !== partsB[i]) {
-                return partsA[i] - partsB[i];
-            }
+            const diff = this.scheme.compareSegments(partsA[i], partsB[i]);
+            if (diff !== 0) return diff;
         }
 
         // 如果其中一个 ID 是另一个的前缀，较短的 ID 排在前面
         return partsA.length - partsB.length;
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,57 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export type IdPropertyMigration = 'property' | 'basename' | 'none';
+
+// 修改 ID 属性时选择如何为已有主卡填写新属性
+export class IdPropertyMigrationModal extends Modal {
+    private choice: IdPropertyMigration | null = null;
+    private resolve: (choice: IdPropertyMigration | null) => void = () => {};
+
+    constructor(
+        app: App,
+        private oldProperty: string,
+        private newProperty: string,
+        private cardCount: number
+    ) {
+        super(app);
+    }
+
+    choose(): Promise<IdPropertyMigration | null> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('迁移主卡 ID 属性');
+        contentEl.createEl('p', { text: `ID 属性将从 "${this.oldProperty}" 改为 "${this.newProperty}"。是否为主盒中的 ${this.cardCount} 张主卡写入新属性？` });
+        contentEl.createEl('p', { text: '不迁移时，没有新属性的主卡将以文件名作为 ID。' });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(`从 "${this.oldProperty}" 复制`)
+                .setCta()
+                .onClick(() => this.finish('property')))
+            .addButton(button => button
+                .setButtonText('从文件名读取')
+                .onClick(() => this.finish('basename')))
+            .addButton(button => button
+                .setButtonText('不迁移')
+                .onClick(() => this.finish('none')))
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolve(this.choice);
+    }
+
+    private finish(choice: IdPropertyMigration) {
+        this.choice = choice;
+        this.close();
+    }
+}
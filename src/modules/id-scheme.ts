@@ -0,0 +1,138 @@
+import { IdSchemeType } from '@/types';
+
+// 主卡编号方案：负责 ID 与层级分段之间的转换，以及分段的排序和生成
+// 编号间隔、重排等通用规则由 MainCardIdHelper 基于分段序号实现
+export interface IdScheme {
+    // 相邻兄弟编号之间的默认间隔
+    readonly step: number;
+    // 顶层编号格式的说明，用于 ID 检查的提示
+    readonly topLevelFormat: string;
+    // 匹配一个完整 ID 的正则表达式（不含首尾锚点），用于从文件名中识别 ID
+    readonly idPattern: string;
+
+    // 拆分为层级分段，不符合格式时返回 null
+    split(id: string): string[] | null;
+    join(segments: string[]): string;
+    compareSegments(a: string, b: string): number;
+    // 分段在同类分段中的序号，用于计算编号间隔
+    getOrdinal(segment: string): number;
+    // 生成与 sample 同类的分段（兄弟主卡）
+    formatSibling(sample: string, ordinal: number): string;
+    // 生成 parentSegments 下一层的分段（子主卡）
+    formatChild(parentSegments: string[], ordinal: number): string;
+    isValidTopLevel(segment: string): boolean;
+    getFirstTopLevelId(): string;
+}
+
+export const ID_SCHEME_LABELS: Record<IdSchemeType, string> = {
+    numeric: '分段数字（4111-10-20）',
+    alternating: '数字字母交替（21/3d7a6）'
+};
+
+// 分段数字：各层级用 "-" 分隔，步长和顶层位数可配置
+export class NumericIdScheme implements IdScheme {
+    readonly idPattern = '\\d+(?:-\\d+)*';
+
+    constructor(readonly step: number, private topLevelWidth: number) {}
+
+    get topLevelFormat(): string {
+        return this.topLevelWidth > 0 ? `${this.topLevelWidth} 位数字` : '数字';
+    }
+
+    split(id: string): string[] | null {
+        const segments = id.split('-');
+        return segments.every(segment => /^\d+$/.test(segment)) ? segments : null;
+    }
+
+    join(segments: string[]): string {
+        return segments.join('-');
+    }
+
+    compareSegments(a: string, b: string): number {
+        return parseInt(a) - parseInt(b);
+    }
+
+    getOrdinal(segment: string): number {
+        return parseInt(segment);
+    }
+
+    formatSibling(sample: string, ordinal: number): string {
+        return String(ordinal);
+    }
+
+    formatChild(parentSegments: string[], ordinal: number): string {
+        return String(ordinal);
+    }
+
+    isValidTopLevel(segment: string): boolean {
+        return this.topLevelWidth <= 0 || segment.length === this.topLevelWidth;
+    }
+
+    getFirstTopLevelId(): string {
+        return this.topLevelWidth > 0 ? '1' + '0'.repeat(this.topLevelWidth - 1) : String(this.step);
+    }
+}
+
+// 数字字母交替（卢曼编号）：数字层和字母层交替出现，如 1a2b；
+// 相邻的两个数字层用 "/" 分隔，如 21/3d7a6。字母层按 a..z、aa..az 的顺序编号
+export class AlternatingIdScheme implements IdScheme {
+    readonly step = 1;
+    readonly topLevelFormat = '数字';
+    readonly idPattern = '\\d+(?:\\/\\d+)*(?:[a-z]+\\d+(?:\\/\\d+)*)*[a-z]*';
+
+    split(id: string): string[] | null {
+        if (!new RegExp(`^${this.idPattern}$`).test(id)) return null;
+        return id.match(/\d+|[a-z]+/g);
+    }
+
+    join(segments: string[]): string {
+        return segments.reduce((id, segment, index) => {
+            const separator = index > 0 && this.isNumber(segments[index - 1]) && this.isNumber(segment) ? '/' : '';
+            return id + separator + segment;
+        }, '');
+    }
+
+    // 同一层级中数字分段排在字母分段之前
+    compareSegments(a: string, b: string): number {
+        if (this.isNumber(a) !== this.isNumber(b)) return this.isNumber(a) ? -1 : 1;
+        return this.getOrdinal(a) - this.getOrdinal(b);
+    }
+
+    getOrdinal(segment: string): number {
+        if (this.isNumber(segment)) return parseInt(segment);
+        return Array.from(segment).reduce((ordinal, char) => ordinal * 26 + char.charCodeAt(0) - 96, 0);
+    }
+
+    formatSibling(sample: string, ordinal: number): string {
+        return this.isNumber(sample) ? String(ordinal) : this.toLetters(ordinal);
+    }
+
+    formatChild(parentSegments: string[], ordinal: number): string {
+        const last = parentSegments[parentSegments.length - 1];
+        return this.isNumber(last) ? this.toLetters(ordinal) : String(ordinal);
+    }
+
+    isValidTopLevel(segment: string): boolean {
+        return this.isNumber(segment);
+    }
+
+    getFirstTopLevelId(): string {
+        return '1';
+    }
+
+    private isNumber(segment: string): boolean {
+        return /^\d+$/.test(segment);
+    }
+
+    private toLetters(ordinal: number): string {
+        let letters = '';
+        for (let n = ordinal; n > 0; n = Math.floor((n - 1) / 26)) {
+            letters = String.fromCharCode(97 + (n - 1) % 26) + letters;
+        }
+        return letters;
+    }
+}
+
+export function createIdScheme(type: IdSchemeType, step: number, topLevelWidth: number): IdScheme {
+    return type === 'alternating' ? new AlternatingIdScheme() : new NumericIdScheme(step, topLevelWidth);
+}
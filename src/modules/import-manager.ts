@@ -0,0 +1,168 @@
+import { TFile, TFolder } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { ImportPlanItem, ImportTarget, OutlineItem } from '@/types';
+import { MainCardIdHelper } from '@/modules/id-helper';
+
+// 从嵌套列表、标题结构的笔记或 OPML 批量创建主卡
+export class ImportManager {
+    constructor(private plugin: ZettelkastenPlugin) {}
+
+    // 可作为导入来源的文件：主盒之外的 Markdown 和 OPML 文件
+    getImportSources(): TFile[] {
+        return this.plugin.app.vault.getFiles()
+            .filter(file => this.isImportSource(file))
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    isImportSource(file: TFile): boolean {
+        return (file.extension === 'md' || file.extension === 'opml') && !this.plugin.cardIndex.isMainCardFile(file);
+    }
+
+    async parseOutline(source: TFile): Promise<OutlineItem[]> {
+        const content = await this.plugin.app.vault.cachedRead(source);
+        const items = source.extension === 'opml' ? this.parseOpml(content) : this.parseMarkdown(content);
+        if (items.length === 0) throw new Error('未在文件中找到大纲条目');
+        return items;
+    }
+
+    // 按 ID 规则为大纲条目分配编号：第一层接在目标父主卡（或顶层）的最后一张主卡之后，每层按编号方案的步长递增，跳过退役编号
+    planImport(items: OutlineItem[], { box, parent }: ImportTarget): ImportPlanItem[] {
+        const cardIndex = this.plugin.cardIndex;
+        const existing = parent
+            ? cardIndex.getChildren(box, parent.id)
+            : cardIndex.getEntries(box).filter(({ id }) => MainCardIdHelper.getParentId(id) === null);
+        const last = existing[existing.length - 1];
+        let firstId: string;
+        if (last) {
+            firstId = MainCardIdHelper.generateSiblingId(last.id, null);
+        } else {
+            firstId = parent ? MainCardIdHelper.generateChildId(parent.id, null) : MainCardIdHelper.getFirstTopLevelId();
+        }
+
+        const registry = this.plugin.retiredIdRegistry;
+        const plan: ImportPlanItem[] = [];
+        const addItems = (outlineItems: OutlineItem[], firstItemId: string, depth: number) => {
+            let id = firstItemId;
+            for (const item of outlineItems) {
+                while (registry.isRetired(box, id)) id = MainCardIdHelper.generateSiblingId(id, null);
+                if (cardIndex.getCardsById(box, id).length > 0) throw new Error(`编号 ${id} 已被占用`);
+                plan.push({ id, title: item.title, body: item.body, depth });
+                addItems(item.children, MainCardIdHelper.generateChildId(id, null), depth + 1);
+                id = MainCardIdHelper.generateSiblingId(id, null);
+            }
+        };
+        addItems(items, firstId, 0);
+
+        // 顶层编号超出编号方案的格式（如四位数字）
+        if (!parent && plan.some(({ id, depth }) => depth === 0 && !MainCardIdHelper.isValidTopLevelId(id))) {
+            throw new Error('顶层编号已用尽');
+        }
+        return plan;
+    }
+
+    // 按阅读顺序创建主卡，父主卡总是先于子主卡创建；导入到父主卡所在的文件夹
+    async importCards(plan: ImportPlanItem[], { box, parent }: ImportTarget): Promise<TFile[]> {
+        const folder = parent ? parent.file.parent : this.plugin.app.vault.getAbstractFileByPath(box.path);
+        if (!(folder instanceof TFolder)) throw new Error('主盒路径无效');
+
+        const files: TFile[] = [];
+        await this.plugin.journal.record(`导入 ${plan.length} 张主卡`, async () => {
+            for (const item of plan) {
+                files.push(await this.plugin.fileManager.createMainCardFile(item.id, folder, item.title, item.body));
+            }
+        });
+        return files;
+    }
+
+    // 笔记中有标题时按标题层级导入，标题下的内容作为正文；否则按嵌套列表导入
+    private parseMarkdown(content: string): OutlineItem[] {
+        const lines = content.replace(/^---\n[\s\S]*?\n---(\n|$)/, '').split('\n');
+        const hasHeadings = this.getContentLines(lines).some(line => /^#{1,6}\s+\S/.test(line));
+        return hasHeadings ? this.parseHeadings(lines) : this.parseList(lines);
+    }
+
+    private parseHeadings(lines: string[]): OutlineItem[] {
+        const roots: OutlineItem[] = [];
+        const stack: { level: number; item: OutlineItem }[] = [];
+        const bodies = new Map<OutlineItem, string[]>();
+        let inCodeBlock = false;
+
+        for (const line of lines) {
+            if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+            const match = inCodeBlock ? null : line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+            if (!match) {
+                // 第一个标题之前的内容不导入
+                const current = stack[stack.length - 1];
+                if (current) bodies.get(current.item)?.push(line);
+                continue;
+            }
+
+            const level = match[1].length;
+            const item: OutlineItem = { title: match[2], body: '', children: [] };
+            bodies.set(item, []);
+            while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+            (stack.length > 0 ? stack[stack.length - 1].item.children : roots).push(item);
+            stack.push({ level, item });
+        }
+
+        for (const [item, bodyLines] of bodies) {
+            item.body = bodyLines.join('\n').trim();
+        }
+        return roots;
+    }
+
+    // 列表项的续行（缩进的非列表行）作为该条目的正文
+    private parseList(lines: string[]): OutlineItem[] {
+        const roots: OutlineItem[] = [];
+        const stack: { indent: number; item: OutlineItem }[] = [];
+        const bodies = new Map<OutlineItem, string[]>();
+
+        for (const line of lines) {
+            const match = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?(.*)$/);
+            if (!match) {
+                // 没有缩进的普通段落不属于列表
+                const current = stack[stack.length - 1];
+                if (current && (line.trim() === '' || /^\s/.test(line))) bodies.get(current.item)?.push(line.trim());
+                continue;
+            }
+
+            const indent = match[1].replace(/\t/g, '    ').length;
+            const item: OutlineItem = { title: match[2].trim(), body: '', children: [] };
+            bodies.set(item, []);
+            while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+            (stack.length > 0 ? stack[stack.length - 1].item.children : roots).push(item);
+            stack.push({ indent, item });
+        }
+
+        for (const [item, bodyLines] of bodies) {
+            item.body = bodyLines.join('\n').trim();
+        }
+        return roots;
+    }
+
+    private parseOpml(content: string): OutlineItem[] {
+        const doc = new DOMParser().parseFromString(content, 'text/xml');
+        if (doc.querySelector('parsererror')) throw new Error('OPML 文件格式无效');
+        const body = doc.querySelector('body');
+        if (!body) return [];
+
+        const parseOutlines = (parent: Element): OutlineItem[] =>
+            Array.from(parent.children)
+                .filter(el => el.tagName === 'outline')
+                .map(el => ({
+                    title: (el.getAttribute('text') ?? el.getAttribute('title') ?? '').trim(),
+                    body: (el.getAttribute('_note') ?? '').trim(),
+                    children: parseOutlines(el)
+                }));
+        return parseOutlines(body);
+    }
+
+    // 去掉代码块中的行
+    private getContentLines(lines: string[]): string[] {
+        let inCodeBlock = false;
+        return lines.filter(line => {
+            if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+            return !inCodeBlock;
+        });
+    }
+}
@@ -0,0 +1,50 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+import { ImportTarget } from '@/types';
+
+// 选择要导入的大纲文件
+export class ImportSourceModal extends FuzzySuggestModal<TFile> {
+    constructor(
+        app: App,
+        private sources: TFile[],
+        private onChoose: (source: TFile) => void
+    ) {
+        super(app);
+        this.setPlaceholder('选择要导入的大纲文件（Markdown 或 OPML）');
+    }
+
+    getItems(): TFile[] {
+        return this.sources;
+    }
+
+    getItemText(source: TFile): string {
+        return source.path;
+    }
+
+    onChooseItem(source: TFile): void {
+        this.onChoose(source);
+    }
+}
+
+// 选择导入位置：某张主卡之下，或某个主盒的顶层
+export class ImportParentModal extends FuzzySuggestModal<ImportTarget> {
+    constructor(
+        app: App,
+        private targets: ImportTarget[],
+        private onChoose: (target: ImportTarget) => void
+    ) {
+        super(app);
+        this.setPlaceholder('输入主卡 ID 或标题，选择导入到哪张主卡之下');
+    }
+
+    getItems(): ImportTarget[] {
+        return this.targets;
+    }
+
+    getItemText({ box, parent }: ImportTarget): string {
+        return parent ? `${parent.id} ${parent.file.basename}` : `${box.path} 顶层主卡`;
+    }
+
+    onChooseItem(target: ImportTarget): void {
+        this.onChoose(target);
+    }
+}
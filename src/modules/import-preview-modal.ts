@@ -0,0 +1,55 @@
+import { App, Modal, Setting } from 'obsidian';
+import { ImportPlanItem } from '@/types';
+
+// 导入前预览将要创建的主卡，确认后才写入
+export class ImportPreviewModal extends Modal {
+    private confirmed = false;
+    private resolve: (confirmed: boolean) => void = () => {};
+
+    constructor(
+        app: App,
+        private plan: ImportPlanItem[],
+        private targetLabel: string
+    ) {
+        super(app);
+    }
+
+    confirm(): Promise<boolean> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('导入预览');
+        contentEl.createEl('p', { text: `将在${this.targetLabel}下创建 ${this.plan.length} 张主卡：` });
+
+        // 按层级渲染嵌套列表
+        const lists: HTMLElement[] = [contentEl.createEl('ul')];
+        let lastItemEl: HTMLElement | null = null;
+        for (const item of this.plan) {
+            while (lists.length > item.depth + 1) lists.pop();
+            if (lists.length < item.depth + 1 && lastItemEl) lists.push(lastItemEl.createEl('ul'));
+            lastItemEl = lists[lists.length - 1].createEl('li', { text: `${item.id} ${item.title}` });
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('导入')
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }))
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolve(this.confirmed);
+    }
+}
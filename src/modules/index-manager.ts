@@ -0,0 +1,147 @@
+import { TFile, normalizePath } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { IdIssue } from '@/types';
+import { MainCardIdHelper } from '@/modules/id-helper';
+
+// 索引总览笔记放在索引文件夹中，只重写标记之间的生成内容
+const REGISTER_NOTE_NAME = '索引总览';
+const BLOCK_START = '<!-- zettelkasten-register:start -->';
+const BLOCK_END = '<!-- zettelkasten-register:end -->';
+// 索引条目：以主卡 ID 开头、后跟链接的列表项，如 "- 4111-10 [[4111-10 标题]]"
+const ENTRY_PATTERN = /^\s*[-*+]\s+(\S+)\s+\[/;
+
+// 关键词索引：索引文件夹中的每篇笔记是一个关键词，列出指向主盒的主卡 ID
+export class IndexManager {
+    constructor(private plugin: ZettelkastenPlugin) {}
+
+    // 索引文件夹中除索引总览外的 Markdown 笔记，按关键词排序
+    getKeywordNotes(): TFile[] {
+        return this.plugin.app.vault.getMarkdownFiles()
+            .filter(file => this.isKeywordNote(file))
+            .sort((a, b) => a.basename.localeCompare(b.basename));
+    }
+
+    isKeywordNote(file: TFile): boolean {
+        const folderPath = this.getFolderPath();
+        return !!folderPath && file.extension === 'md'
+            && file.path.startsWith(folderPath + '/')
+            && file.path !== this.getRegisterNotePath();
+    }
+
+    // 将主卡的 ID 和链接加入关键词笔记，关键词笔记不存在时新建
+    async addToIndex(cardFile: TFile, keyword: TFile | string): Promise<TFile> {
+        const entry = this.plugin.cardIndex.getEntry(cardFile);
+        if (!entry) throw new Error('当前文件不是主卡');
+        const note = keyword instanceof TFile ? keyword : await this.getOrCreateKeywordNote(keyword);
+
+        const entries = await this.getIndexEntries(note);
+        if (entries.includes(entry.id)) throw new Error(`${entry.id} 已在关键词 ${note.basename} 中`);
+
+        const link = this.plugin.app.metadataCache.fileToLinktext(cardFile, note.path, true);
+        await this.plugin.app.vault.process(note, (content) => {
+            const line = `- ${entry.id} [[${link}]]\n`;
+            return content.trim() ? content.replace(/\n*$/, '\n') + line : line;
+        });
+        await this.updateRegisterNote();
+        return note;
+    }
+
+    // 关键词笔记中各条目的主卡 ID，按出现顺序
+    async getIndexEntries(note: TFile): Promise<string[]> {
+        const content = await this.plugin.app.vault.cachedRead(note);
+        const ids: string[] = [];
+        for (const line of content.split('\n')) {
+            const id = this.matchEntryId(line);
+            if (id) ids.push(id);
+        }
+        return ids;
+    }
+
+    async removeIndexEntry(note: TFile, id: string): Promise<void> {
+        await this.plugin.app.vault.process(note, (content) => content
+            .split('\n')
+            .filter(line => this.matchEntryId(line) !== id)
+            .join('\n'));
+        await this.updateRegisterNote();
+    }
+
+    // 按关键词字母顺序列出所有关键词及其条目 ID
+    async updateRegisterNote(): Promise<TFile> {
+        const { vault, metadataCache } = this.plugin.app;
+        const notePath = this.getRegisterNotePath();
+        if (!notePath) throw new Error('未设置索引路径');
+        await this.ensureFolder();
+
+        let register = '';
+        for (const note of this.getKeywordNotes()) {
+            const ids = await this.getIndexEntries(note);
+            const link = metadataCache.fileToLinktext(note, notePath, true);
+            register += `- [[${link}]]：${ids.length > 0 ? ids.join(', ') : '无条目'}\n`;
+        }
+        const block = `${BLOCK_START}\n${register}${BLOCK_END}`;
+
+        const existing = vault.getAbstractFileByPath(notePath);
+        if (!(existing instanceof TFile)) {
+            return vault.create(notePath, `# ${REGISTER_NOTE_NAME}\n\n${block}\n`);
+        }
+        await vault.process(existing, (content) => {
+            const start = content.indexOf(BLOCK_START);
+            const end = content.indexOf(BLOCK_END, start);
+            if (start === -1 || end === -1) {
+                return content.replace(/\n*$/, '\n\n') + block + '\n';
+            }
+            return content.slice(0, start) + block + content.slice(end + BLOCK_END.length);
+        });
+        return existing;
+    }
+
+    // 检查索引条目指向的 ID 是否仍存在于主盒中
+    async checkIndexEntries(): Promise<IdIssue[]> {
+        const ids = new Set(this.plugin.cardIndex.getEntries().map(({ id }) => id));
+        const issues: IdIssue[] = [];
+        for (const note of this.getKeywordNotes()) {
+            for (const id of await this.getIndexEntries(note)) {
+                if (ids.has(id)) continue;
+                issues.push({ type: 'dead-index-entry', file: note, id, message: `关键词 ${note.basename} 指向不存在的 ID` });
+            }
+        }
+        return issues;
+    }
+
+    // 开头不是有效主卡 ID 的列表项（如 "- 参见 [[其他]]"）不是索引条目
+    private matchEntryId(line: string): string | null {
+        const id = line.match(ENTRY_PATTERN)?.[1];
+        return id && MainCardIdHelper.isValidId(id) ? id : null;
+    }
+
+    private async getOrCreateKeywordNote(keyword: string): Promise<TFile> {
+        const name = keyword.replace(/[\\/:*?"<>|#^[\]]/g, '').trim();
+        if (!name) throw new Error('关键词无效');
+        const folderPath = this.getFolderPath();
+        if (!folderPath) throw new Error('未设置索引路径');
+        await this.ensureFolder();
+
+        const notePath = normalizePath(`${folderPath}/${name}.md`);
+        if (notePath === this.getRegisterNotePath()) throw new Error('关键词不能与索引总览同名');
+        const existing = this.plugin.app.vault.getAbstractFileByPath(notePath);
+        if (existing instanceof TFile) return existing;
+        return this.plugin.app.vault.create(notePath, '');
+    }
+
+    private async ensureFolder() {
+        const folderPath = this.getFolderPath();
+        if (!this.plugin.app.vault.getAbstractFileByPath(folderPath)) {
+            await this.plugin.app.vault.createFolder(folderPath);
+        }
+    }
+
+    private getFolderPath(): string {
+        const folderPath = normalizePath(this.plugin.settings.indexPath.trim());
+        return folderPath === '/' ? '' : folderPath;
+    }
+
+    private getRegisterNotePath(): string {
+        const folderPath = this.getFolderPath();
+        return folderPath ? normalizePath(`${folderPath}/${REGISTER_NOTE_NAME}.md`) : '';
+    }
+}
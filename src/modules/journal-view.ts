@@ -0,0 +1,76 @@
+import { ItemView, Notice, WorkspaceLeaf, moment } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { JournalStep } from '@/types';
+
+export const JOURNAL_VIEW_TYPE = 'zettelkasten-journal';
+
+// 主卡操作历史：最近的操作在最前，只能撤销最近一次操作
+export class JournalView extends ItemView {
+    constructor(leaf: WorkspaceLeaf, private plugin: ZettelkastenPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return JOURNAL_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return '主卡操作历史';
+    }
+
+    getIcon(): string {
+        return 'history';
+    }
+
+    async onOpen() {
+        this.render();
+    }
+
+    render() {
+        const container = this.contentEl;
+        container.empty();
+
+        const entries = this.plugin.journal.getEntries().slice().reverse();
+        const header = container.createDiv({ cls: 'nav-header' });
+        header.createEl('span', { text: entries.length === 0 ? '没有操作记录' : `最近 ${entries.length} 次操作` });
+        const undoButton = header.createEl('button', { text: '撤销上一次操作' });
+        undoButton.disabled = entries.length === 0;
+        undoButton.addEventListener('click', async () => {
+            try {
+                const entry = await this.plugin.journal.undoLast();
+                new Notice(`已撤销：${entry.label}`);
+            } catch (error) {
+                new Notice('撤销失败：' + error.message);
+            }
+            this.render();
+        });
+
+        for (const entry of entries) {
+            const entryEl = container.createDiv({ cls: 'tree-item' });
+            const selfEl = entryEl.createDiv({ cls: 'tree-item-self' });
+            selfEl.createDiv({ cls: 'tree-item-inner', text: entry.label });
+            selfEl.createDiv({ cls: 'tree-item-flair-outer', text: moment(entry.timestamp).format('YYYY-MM-DD HH:mm:ss') });
+
+            const stepsEl = entryEl.createEl('ul');
+            for (const step of entry.steps) {
+                const text = this.describeStep(step);
+                if (text) stepsEl.createEl('li', { cls: 'mod-muted', text });
+            }
+        }
+    }
+
+    // 临时文件名的重命名不显示
+    private describeStep(step: JournalStep): string | null {
+        switch (step.type) {
+            case 'create':
+                return `创建 ${step.path}`;
+            case 'rename':
+                if (step.temporary) return null;
+                return step.oldId ? `${step.oldId} → ${step.newId}：${step.newPath}` : `移动 ${step.oldPath} → ${step.newPath}`;
+            case 'property':
+                return `${step.property}：${step.oldValue ?? '无'} → ${step.newValue}`;
+            case 'modify':
+                return `改写 ${step.path}`;
+        }
+    }
+}
@@ -0,0 +1,32 @@
+import { App, SuggestModal, TFile } from 'obsidian';
+
+// 选择关键词笔记；输入的关键词不存在时可新建
+export class KeywordModal extends SuggestModal<TFile | string> {
+    constructor(
+        app: App,
+        private keywordNotes: TFile[],
+        private onChoose: (keyword: TFile | string) => void
+    ) {
+        super(app);
+        this.setPlaceholder('输入关键词，选择已有关键词或新建');
+    }
+
+    getSuggestions(query: string): (TFile | string)[] {
+        const keyword = query.trim();
+        const lowerCaseKeyword = keyword.toLowerCase();
+        const notes: (TFile | string)[] = this.keywordNotes
+            .filter(note => note.basename.toLowerCase().includes(lowerCaseKeyword));
+        if (keyword && !this.keywordNotes.some(note => note.basename === keyword)) {
+            notes.unshift(keyword);
+        }
+        return notes;
+    }
+
+    renderSuggestion(keyword: TFile | string, el: HTMLElement) {
+        el.createDiv({ text: keyword instanceof TFile ? keyword.basename : `新建关键词：${keyword}` });
+    }
+
+    onChooseSuggestion(keyword: TFile | string) {
+        this.onChoose(keyword);
+    }
+}
@@ -0,0 +1,28 @@
+import { App, SuggestModal } from 'obsidian';
+import { CanvasLayoutType } from '@/types';
+import { LAYOUT_LABELS } from '@/modules/tree-layout';
+
+// 选择知识树布局
+export class LayoutSuggestModal extends SuggestModal<CanvasLayoutType> {
+    constructor(
+        app: App,
+        private currentType: CanvasLayoutType,
+        private onChoose: (type: CanvasLayoutType) => void
+    ) {
+        super(app);
+        this.setPlaceholder('选择知识树布局');
+    }
+
+    getSuggestions(query: string): CanvasLayoutType[] {
+        return (Object.keys(LAYOUT_LABELS) as CanvasLayoutType[])
+            .filter(type => LAYOUT_LABELS[type].includes(query) || type.includes(query.toLowerCase()));
+    }
+
+    renderSuggestion(type: CanvasLayoutType, el: HTMLElement) {
+        el.createDiv({ text: LAYOUT_LABELS[type] + (type === this.currentType ? '（当前）' : '') });
+    }
+
+    onChooseSuggestion(type: CanvasLayoutType) {
+        this.onChoose(type);
+    }
+}
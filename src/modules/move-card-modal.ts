@@ -0,0 +1,32 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { MainCardEntry } from '@/types';
+
+export interface MoveTarget {
+    mode: 'child' | 'after';
+    entry: MainCardEntry;
+}
+
+// 选择移动目标：作为某张主卡的子主卡，或放在某张主卡之后
+export class MoveCardModal extends FuzzySuggestModal<MoveTarget> {
+    constructor(
+        app: App,
+        private targets: MoveTarget[],
+        private onChoose: (target: MoveTarget) => void
+    ) {
+        super(app);
+        this.setPlaceholder('输入主卡 ID 或标题，选择新的父主卡或相邻主卡');
+    }
+
+    getItems(): MoveTarget[] {
+        return this.targets;
+    }
+
+    getItemText(target: MoveTarget): string {
+        const label = target.mode === 'child' ? '作为子主卡' : '放在其后';
+        return `${label}：${target.entry.id} ${target.entry.file.basename}`;
+    }
+
+    onChooseItem(target: MoveTarget): void {
+        this.onChoose(target);
+    }
+}
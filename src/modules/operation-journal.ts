@@ -0,0 +1,206 @@
+import { TFile } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { IdChange, JournalEntry, JournalStep } from '@/types';
+
+// 只保留最近的操作，避免插件数据过大
+const MAX_ENTRIES = 20;
+
+// 主卡操作日志：记录 FileManager 和 CanvasManager 的结构操作，支持撤销最近一次操作
+export class OperationJournal {
+    private current: JournalEntry | null = null;
+    private undoing = false;
+
+    constructor(private plugin: ZettelkastenPlugin) {}
+
+    // 记录一次结构操作；嵌套调用并入最外层的操作，失败时已完成的步骤同样记录，便于撤销
+    async record<T>(label: string, task: () => Promise<T>): Promise<T> {
+        if (this.current || this.undoing) return task();
+        const entry: JournalEntry = { label, timestamp: Date.now(), steps: [] };
+        this.current = entry;
+        try {
+            return await task();
+        } finally {
+            this.current = null;
+            if (entry.steps.length > 0) {
+                await this.hashCreatedFiles(entry);
+                const journal = this.plugin.settings.journal;
+                journal.push(entry);
+                journal.splice(0, Math.max(0, journal.length - MAX_ENTRIES));
+                await this.plugin.saveSettings();
+                this.plugin.uiManager.refreshViews();
+            }
+        }
+    }
+
+    isUndoing(): boolean {
+        return this.undoing;
+    }
+
+    getEntries(): JournalEntry[] {
+        return this.plugin.settings.journal;
+    }
+
+    recordCreate(file: TFile) {
+        this.addStep({ type: 'create', path: file.path });
+    }
+
+    // 没有 ID 变化的重命名为临时文件名
+    recordRename(oldPath: string, newPath: string, ids?: { oldId?: string; newId: string }) {
+        this.addStep(ids
+            ? { type: 'rename', oldPath, newPath, oldId: ids.oldId, newId: ids.newId }
+            : { type: 'rename', oldPath, newPath, temporary: true });
+    }
+
+    recordProperty(file: TFile, property: string, oldValue: unknown, newValue: unknown) {
+        this.addStep({ type: 'property', path: file.path, property, oldValue, newValue });
+    }
+
+    // 同 vault.process，记录修改前的内容
+    async process(file: TFile, fn: (content: string) => string): Promise<void> {
+        let oldContent = '';
+        const newContent = await this.plugin.app.vault.process(file, (content) => {
+            oldContent = content;
+            return fn(content);
+        });
+        if (newContent !== oldContent) {
+            this.addStep({ type: 'modify', path: file.path, oldContent, newHash: hashContent(newContent) });
+        }
+    }
+
+    // 同 vault.modify，记录修改前的内容
+    async modify(file: TFile, data: string): Promise<void> {
+        await this.process(file, () => data);
+    }
+
+    // 按步骤逆序撤销最近一次操作；撤销前检查所有步骤都能执行，且相关文件在操作后没有又被改动
+    async undoLast(): Promise<JournalEntry> {
+        const journal = this.plugin.settings.journal;
+        const entry = journal[journal.length - 1];
+        if (!entry) throw new Error('没有可撤销的操作');
+        await this.checkUndoable(entry);
+
+        const idChanges: IdChange[] = [];
+        let failure: Error | null = null;
+        // 撤销期间的写入不再记录，删除的主卡也不登记为退役编号
+        this.undoing = true;
+        try {
+            try {
+                await this.plugin.canvasManager.withSyncSuspended(async () => {
+                    for (const step of entry.steps.slice().reverse()) {
+                        const change = await this.undoStep(step);
+                        if (change) idChanges.push(change);
+                    }
+                    await this.plugin.fileManager.waitForCardIds(idChanges);
+                });
+            } catch (error) {
+                failure = error;
+            }
+
+            // 中途失败时部分步骤已经撤销，同一操作无法再次撤销，同样从历史中移除
+            journal.pop();
+            await this.plugin.saveSettings();
+
+            // 主卡文件有变化时按撤销后的索引重新生成知识树和结构笔记
+            if (entry.steps.some(step => step.type !== 'modify')) {
+                await this.plugin.canvasManager.refreshAllKnowledgeTrees();
+                await this.plugin.structureNoteManager.refreshAllStructureNotes();
+            }
+        } finally {
+            this.undoing = false;
+        }
+        this.plugin.uiManager.refreshViews();
+        if (failure) throw new Error(`只撤销了部分步骤，已从操作历史中移除：${failure.message}`);
+        return entry;
+    }
+
+    private addStep(step: JournalStep) {
+        if (this.current && !this.undoing) this.current.steps.push(step);
+    }
+
+    // 新建的文件在操作结束时的内容，创建后写入的属性等也包含在内
+    private async hashCreatedFiles(entry: JournalEntry): Promise<void> {
+        const { vault } = this.plugin.app;
+        for (const [index, step] of entry.steps.entries()) {
+            if (step.type !== 'create') continue;
+            const file = vault.getAbstractFileByPath(this.getCurrentPath(entry, index, step.path));
+            if (file instanceof TFile) step.newHash = hashContent(await vault.read(file));
+        }
+    }
+
+    private async checkUndoable(entry: JournalEntry): Promise<void> {
+        const { vault } = this.plugin.app;
+        for (const [index, step] of entry.steps.entries()) {
+            if (step.type !== 'create' && step.type !== 'modify') continue;
+            const path = this.getCurrentPath(entry, index, step.path);
+            const file = vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) throw new Error(`找不到文件：${path}`);
+            if (hashContent(await vault.read(file)) !== step.newHash) {
+                throw new Error(`${path} 在操作后已被修改`);
+            }
+        }
+
+        // 按撤销顺序模拟文件路径的变化，确认每一步要处理的文件存在、重命名的目标路径没有被占用
+        const exists = new Map<string, boolean>();
+        const isFile = (path: string) => exists.get(path) ?? vault.getAbstractFileByPath(path) instanceof TFile;
+        const isTaken = (path: string) => exists.get(path) ?? vault.getAbstractFileByPath(path) !== null;
+        for (const step of entry.steps.slice().reverse()) {
+            const path = step.type === 'rename' ? step.newPath : step.path;
+            if (!isFile(path)) throw new Error(`找不到文件：${path}`);
+            if (step.type === 'create') {
+                exists.set(path, false);
+            } else if (step.type === 'rename') {
+                if (isTaken(step.oldPath)) throw new Error(`文件已存在：${step.oldPath}`);
+                exists.set(step.newPath, false);
+                exists.set(step.oldPath, true);
+            }
+        }
+    }
+
+    // 记录的路径经过之后的重命名步骤后的当前路径
+    private getCurrentPath(entry: JournalEntry, index: number, path: string): string {
+        for (const step of entry.steps.slice(index + 1)) {
+            if (step.type === 'rename' && step.oldPath === path) path = step.newPath;
+        }
+        return path;
+    }
+
+    // 撤销 ID 属性修改时返回对应的 ID 变化，用于等待元数据缓存刷新
+    private async undoStep(step: JournalStep): Promise<IdChange | null> {
+        const { vault, fileManager } = this.plugin.app;
+        const path = step.type === 'rename' ? step.newPath : step.path;
+        const file = vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) throw new Error(`找不到文件：${path}`);
+
+        switch (step.type) {
+            case 'create':
+                await fileManager.trashFile(file);
+                return null;
+            case 'rename':
+                if (vault.getAbstractFileByPath(step.oldPath)) throw new Error(`文件已存在：${step.oldPath}`);
+                await fileManager.renameFile(file, step.oldPath);
+                return null;
+            case 'property':
+                await fileManager.processFrontMatter(file, (frontmatter) => {
+                    if (step.oldValue === undefined) {
+                        delete frontmatter[step.property];
+                    } else {
+                        frontmatter[step.property] = step.oldValue;
+                    }
+                });
+                if (step.oldValue === undefined || this.plugin.cardIndex.getBoxForFile(file)?.idProperty !== step.property) return null;
+                return { file, oldId: String(step.newValue), newId: String(step.oldValue) };
+            case 'modify':
+                await vault.modify(file, step.oldContent);
+                return null;
+        }
+    }
+}
+
+// 简单的字符串哈希，只用于判断内容是否变化
+function hashContent(content: string): string {
+    let hash = 5381;
+    for (let i = 0; i < content.length; i++) {
+        hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36) + ':' + content.length;
+}
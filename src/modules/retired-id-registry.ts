@@ -0,0 +1,48 @@
+import { TFile, moment } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { MainBoxConfig, RetiredId } from '@/types';
+
+// 退役编号登记：主卡删除后其 ID 不再分配给新主卡，记录保存在插件数据中
+export class RetiredIdRegistry {
+    constructor(private plugin: ZettelkastenPlugin) {}
+
+    // 删除主卡时登记其 ID；同一主盒中仍有主卡使用该 ID 时（如重复 ID）不登记
+    async retire(file: TFile, box: MainBoxConfig, id: string): Promise<void> {
+        if (this.isRetired(box, id)) return;
+        if (this.plugin.cardIndex.getCardsById(box, id).length > 0) return;
+
+        const title = file.basename.startsWith(id + ' ') ? file.basename.slice(id.length + 1).trim() : file.basename;
+        this.plugin.settings.retiredIds.push({
+            boxPath: box.path,
+            id,
+            title,
+            deletedAt: moment().format('YYYY-MM-DD')
+        });
+        await this.plugin.saveSettings();
+    }
+
+    isRetired(box: MainBoxConfig, id: string): boolean {
+        return this.plugin.settings.retiredIds.some(retired => retired.boxPath === box.path && retired.id === id);
+    }
+
+    // 指定主盒时只返回该主盒的退役编号
+    getRetiredIds(box?: MainBoxConfig): RetiredId[] {
+        const retiredIds = this.plugin.settings.retiredIds;
+        return box ? retiredIds.filter(({ boxPath }) => boxPath === box.path) : retiredIds;
+    }
+
+    // 主盒路径修改后，把登记的编号转到新路径下
+    async updateBoxPath(oldPath: string, newPath: string): Promise<void> {
+        for (const retired of this.plugin.settings.retiredIds) {
+            if (retired.boxPath === oldPath) retired.boxPath = newPath;
+        }
+        await this.plugin.saveSettings();
+    }
+
+    // 释放编号，之后可再次分配给新主卡
+    async release(retired: RetiredId): Promise<void> {
+        this.plugin.settings.retiredIds = this.plugin.settings.retiredIds
+            .filter(({ boxPath, id }) => boxPath !== retired.boxPath || id !== retired.id);
+        await this.plugin.saveSettings();
+    }
+}
@@ -0,0 +1,69 @@
+import { ItemView, Notice, WorkspaceLeaf } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { RetiredId } from '@/types';
+import { MainCardIdHelper } from '@/modules/id-helper';
+import { ConfirmModal } from '@/modules/confirm-modal';
+
+export const RETIRED_ID_VIEW_TYPE = 'zettelkasten-retired-ids';
+
+// 退役编号视图：按主盒列出已删除主卡的编号，可释放后重新使用
+export class RetiredIdView extends ItemView {
+    constructor(leaf: WorkspaceLeaf, private plugin: ZettelkastenPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return RETIRED_ID_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return '退役编号';
+    }
+
+    getIcon(): string {
+        return 'archive-x';
+    }
+
+    async onOpen() {
+        this.render();
+    }
+
+    render() {
+        const container = this.contentEl;
+        container.empty();
+
+        const retiredIds = this.plugin.retiredIdRegistry.getRetiredIds();
+        const header = container.createDiv({ cls: 'nav-header' });
+        header.createEl('span', { text: retiredIds.length === 0 ? '没有退役编号' : `共 ${retiredIds.length} 个退役编号` });
+
+        // 已移除的主盒中的记录也一并列出
+        const boxPaths = Array.from(new Set(retiredIds.map(({ boxPath }) => boxPath))).sort();
+        for (const boxPath of boxPaths) {
+            const boxRetiredIds = retiredIds
+                .filter(retired => retired.boxPath === boxPath)
+                .sort((a, b) => MainCardIdHelper.compareIds(a.id, b.id));
+            container.createEl('h4', { text: `${boxPath}（${boxRetiredIds.length}）` });
+            for (const retired of boxRetiredIds) {
+                this.renderRetiredId(container, retired);
+            }
+        }
+    }
+
+    private renderRetiredId(container: HTMLElement, retired: RetiredId) {
+        const itemEl = container.createDiv({ cls: 'tree-item-self' });
+        itemEl.createDiv({ cls: 'tree-item-inner', text: `${retired.id} ${retired.title}` });
+        itemEl.createDiv({ cls: 'tree-item-flair-outer', text: `删除于 ${retired.deletedAt}` });
+        itemEl.createEl('button', { text: '释放' }).addEventListener('click', async () => {
+            const confirmed = await new ConfirmModal(this.app, '释放编号',
+                `释放后 ${retired.id} 可能再次分配给新主卡，引用该编号的旧内容将指向错误的主卡。确定释放吗？`, '释放').confirm();
+            if (!confirmed) return;
+            try {
+                await this.plugin.retiredIdRegistry.release(retired);
+                new Notice(`已释放编号：${retired.id}`);
+                this.render();
+            } catch (error) {
+                new Notice('释放编号失败：' + error.message);
+            }
+        });
+    }
+}
@@ -1,5 +1,10 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, ButtonComponent, Notice, PluginSettingTab, Setting, TFolder, normalizePath } from 'obsidian';
 import { ZettelkastenPlugin } from '@/main';
+import { DEFAULT_SETTINGS, DEFAULT_MAIN_BOX } from '@/settings';
+import { CanvasLayoutOptions, CanvasLayoutType, IdSchemeType, MainBoxConfig } from '@/types';
+import { LAYOUT_LABELS } from '@/modules/tree-layout';
+import { ID_SCHEME_LABELS } from '@/modules/id-scheme';
+import { IdPropertyMigration, IdPropertyMigrationModal } from '@/modules/id-property-modal';
 
 export class ZettelkastenSettingTab extends PluginSettingTab {
     plugin: ZettelkastenPlugin;
@@ -15,63 +20,353 @@ export class ZettelkastenSettingTab extends PluginSettingTab {
 
         containerEl.createEl('h2', { text: 'Zettelkasten 设置' });
 
+        containerEl.createEl('h3', { text: '主盒' });
+        this.plugin.settings.mainBoxes.forEach((box, index) => this.addMainBoxSettings(box, index));
+
         new Setting(containerEl)
-            .setName('主盒路径')
-            .setDesc('指定主盒文件夹的路径')
+            .addButton(button => button
+                .setButtonText('添加主盒')
+                .onClick(async () => {
+                    this.plugin.settings.mainBoxes.push({ ...DEFAULT_MAIN_BOX, path: '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        containerEl.createEl('h3', { text: '主卡' });
+
+        new Setting(containerEl)
+            .setName('启用主卡辅助创建功能')
+            .setDesc('在创建主卡时自动生成 ID 并协助创建主卡文件')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableMainCardGenerationAssit)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableMainCardGenerationAssit = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('主卡文件名格式')
+            .setDesc('新建主卡的文件名，可使用 {{id}} 和 {{title}}')
             .addText(text => text
-                .setPlaceholder('输入文件夹路径')
-                .setValue(this.plugin.settings.mainBoxPath)
+                .setPlaceholder(DEFAULT_SETTINGS.cardFileNamePattern)
+                .setValue(this.plugin.settings.cardFileNamePattern)
                 .onChange(async (value) => {
-                    this.plugin.settings.mainBoxPath = value;
+                    this.plugin.settings.cardFileNamePattern = value || DEFAULT_SETTINGS.cardFileNamePattern;
                     await this.plugin.saveSettings();
-                    this.plugin.uiManager.updateExplorerTitles();
                 }));
 
         new Setting(containerEl)
-            .setName('主卡ID属性')
-            .setDesc('用于显示、ID生成和排序的笔记属性')
+            .setName('主卡模板')
+            .setDesc('新建主卡时使用的模板文件路径，可使用 {{id}}、{{title}}、{{parent}}、{{parentLink}}、{{date}}')
             .addText(text => text
-                .setPlaceholder('alias')
-                .setValue(this.plugin.settings.mainCardIdProperty)
+                .setPlaceholder('Templates/主卡模板.md')
+                .setValue(this.plugin.settings.cardTemplatePath)
                 .onChange(async (value) => {
-                    this.plugin.settings.mainCardIdProperty = value;
+                    this.plugin.settings.cardTemplatePath = value;
                     await this.plugin.saveSettings();
-                    this.plugin.uiManager.updateExplorerTitles();
                 }));
 
         new Setting(containerEl)
-            .setName('启用主卡辅助创建功能')
-            .setDesc('在创建主卡时自动生成 ID 并协助创建主卡文件')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.enableMainCardGenerationAssit)
+            .setName('结构笔记存储路径')
+            .setDesc('指定结构笔记的存储路径')
+            .addText(text => text
+                .setPlaceholder('Structure')
+                .setValue(this.plugin.settings.structureNotePath)
                 .onChange(async (value) => {
-                    this.plugin.settings.enableMainCardGenerationAssit = value;
+                    this.plugin.settings.structureNotePath = value;
                     await this.plugin.saveSettings();
                 }));
 
-        // Canvas 存储路径设置
         new Setting(containerEl)
-            .setName('Canvas 存储路径')
-            .setDesc('指定知识树 Canvas 文件的存储路径')
+            .setName('导出路径')
+            .setDesc('指定分支导出文件的存储路径')
+            .addText(text => text
+                .setPlaceholder('Export')
+                .setValue(this.plugin.settings.exportPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.exportPath = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('收件箱路径')
+            .setDesc('其中的笔记可通过"归档为主卡"移入主盒，留空表示不启用')
+            .addText(text => text
+                .setPlaceholder('Inbox')
+                .setValue(this.plugin.settings.inboxPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.inboxPath = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('索引路径')
+            .setDesc('关键词索引笔记和索引总览的存储路径')
             .addText(text => text
-                .setPlaceholder('Canvas')
-                .setValue(this.plugin.settings.canvasPath)
+                .setPlaceholder('Index')
+                .setValue(this.plugin.settings.indexPath)
                 .onChange(async (value) => {
-                    this.plugin.settings.canvasPath = value;
+                    this.plugin.settings.indexPath = value;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
             .setName('主盒显示模式')
-            .setDesc('选择主盒中主卡的显示方式')
+            .setDesc('选择主盒层级视图中主卡的显示方式')
             .addDropdown(dropdown => dropdown
                 .addOption('id', '显示ID')
-                .addOption('tree', '显示树形')
+                .addOption('tree', '仅显示文件名')
                 .setValue(this.plugin.settings.explorerDisplayMode)
                 .onChange(async (value: 'id' | 'tree') => {
                     this.plugin.settings.explorerDisplayMode = value;
                     await this.plugin.saveSettings();
-                    this.plugin.uiManager.updateExplorerTitles();
+                    this.plugin.uiManager.refreshViews();
+                }));
+
+        containerEl.createEl('h3', { text: '编号方案' });
+
+        new Setting(containerEl)
+            .setName('主卡编号方案')
+            .setDesc('用于解析、排序和生成主卡 ID；切换后可运行"刷新所有知识树"命令更新已有知识树')
+            .addDropdown(dropdown => {
+                (Object.keys(ID_SCHEME_LABELS) as IdSchemeType[]).forEach(type => {
+                    dropdown.addOption(type, ID_SCHEME_LABELS[type]);
+                });
+                dropdown
+                    .setValue(this.plugin.settings.idScheme)
+                    .onChange(async (value: IdSchemeType) => {
+                        this.plugin.settings.idScheme = value;
+                        await this.saveIdScheme();
+                        this.display();
+                    });
+            });
+
+        if (this.plugin.settings.idScheme === 'numeric') {
+            new Setting(containerEl)
+                .setName('编号步长')
+                .setDesc('相邻兄弟主卡之间的编号间隔，至少为 2')
+                .addText(text => text
+                    .setPlaceholder(String(DEFAULT_SETTINGS.idStep))
+                    .setValue(String(this.plugin.settings.idStep))
+                    .onChange(async (value) => {
+                        const number = parseInt(value);
+                        if (isNaN(number) || number < 2) return;
+                        this.plugin.settings.idStep = number;
+                        await this.saveIdScheme();
+                    }));
+
+            new Setting(containerEl)
+                .setName('顶层编号位数')
+                .setDesc('顶层主卡 ID 的数字位数，0 表示不限制')
+                .addText(text => text
+                    .setPlaceholder(String(DEFAULT_SETTINGS.topLevelIdWidth))
+                    .setValue(String(this.plugin.settings.topLevelIdWidth))
+                    .onChange(async (value) => {
+                        const number = parseInt(value);
+                        if (isNaN(number) || number < 0) return;
+                        this.plugin.settings.topLevelIdWidth = number;
+                        await this.saveIdScheme();
+                    }));
+        }
+
+        containerEl.createEl('h3', { text: '知识树布局' });
+
+        new Setting(containerEl)
+            .setName('默认布局')
+            .setDesc('新建知识树使用的布局，可通过"切换布局"命令为单个 Canvas 单独设置')
+            .addDropdown(dropdown => {
+                (Object.keys(LAYOUT_LABELS) as CanvasLayoutType[]).forEach(type => {
+                    dropdown.addOption(type, LAYOUT_LABELS[type]);
+                });
+                dropdown
+                    .setValue(this.plugin.settings.canvasLayout.type)
+                    .onChange(async (value: CanvasLayoutType) => {
+                        this.plugin.settings.canvasLayout.type = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        this.addLayoutNumberSetting('节点宽度', 'nodeWidth');
+        this.addLayoutNumberSetting('节点高度', 'nodeHeight');
+        this.addLayoutNumberSetting('层级间距', 'levelGap');
+        this.addLayoutNumberSetting('同层间距', 'siblingGap');
+    }
+
+    // 每个主盒的路径、ID 属性、Canvas 文件夹和是否包含子文件夹
+    // 修改先保存在草稿中，校验通过并点击"应用"后才生效，避免输入到一半的路径或属性破坏排序、知识树和创建
+    private addMainBoxSettings(box: MainBoxConfig, index: number) {
+        const { containerEl } = this;
+        const draft: MainBoxConfig = { ...box };
+
+        new Setting(containerEl)
+            .setName(`主盒 ${index + 1}`)
+            .setHeading()
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('移除主盒（不会删除文件）')
+                .setDisabled(this.plugin.settings.mainBoxes.length <= 1)
+                .onClick(async () => {
+                    if (this.plugin.settings.mainBoxes.length <= 1) return;
+                    this.plugin.settings.mainBoxes.splice(index, 1);
+                    await this.plugin.saveSettings();
+                    this.plugin.cardIndex.build();
+                    this.plugin.uiManager.refreshViews();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('主盒路径')
+            .setDesc('指定主盒文件夹的路径，文件夹必须已存在')
+            .addText(text => text
+                .setPlaceholder('输入文件夹路径')
+                .setValue(box.path)
+                .onChange((value) => {
+                    draft.path = value;
+                    updateApplySetting();
+                }));
+
+        new Setting(containerEl)
+            .setName('主卡ID属性')
+            .setDesc('用于显示、ID生成和排序的笔记属性；修改后可为已有主卡迁移属性值')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_MAIN_BOX.idProperty)
+                .setValue(box.idProperty)
+                .onChange((value) => {
+                    draft.idProperty = value;
+                    updateApplySetting();
+                }));
+
+        new Setting(containerEl)
+            .setName('Canvas 存储路径')
+            .setDesc('指定该主盒知识树 Canvas 文件的存储路径')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_MAIN_BOX.canvasPath)
+                .setValue(box.canvasPath)
+                .onChange((value) => {
+                    draft.canvasPath = value;
+                    updateApplySetting();
+                }));
+
+        new Setting(containerEl)
+            .setName('包含子文件夹')
+            .setDesc('将主盒子文件夹中的笔记也视为主卡')
+            .addToggle(toggle => toggle
+                .setValue(box.includeSubfolders)
+                .onChange((value) => {
+                    draft.includeSubfolders = value;
+                    updateApplySetting();
+                }));
+
+        let applyButton: ButtonComponent | null = null;
+        const applySetting = new Setting(containerEl)
+            .addButton(button => {
+                applyButton = button;
+                button
+                    .setButtonText('应用')
+                    .setCta()
+                    .onClick(async () => {
+                        if (this.validateMainBox(draft, index) || !this.isMainBoxChanged(box, draft)) return;
+                        try {
+                            await this.applyMainBoxSettings(box, draft);
+                        } catch (error) {
+                            new Notice('应用主盒设置失败：' + error.message);
+                        }
+                        this.display();
+                    });
+            });
+        const updateApplySetting = () => {
+            const error = this.validateMainBox(draft, index);
+            const changed = this.isMainBoxChanged(box, draft);
+            applySetting.setDesc(error ?? (changed ? '有尚未应用的修改' : ''));
+            applyButton?.setDisabled(!!error || !changed);
+        };
+        updateApplySetting();
+    }
+
+    // 主盒文件夹必须存在且不与其他主盒重复，ID 属性名不能包含 YAML 中有特殊含义的字符
+    private validateMainBox(draft: MainBoxConfig, index: number): string | null {
+        const path = normalizePath(draft.path.trim());
+        if (!draft.path.trim() || path === '/') return '请填写主盒路径';
+        if (!(this.app.vault.getAbstractFileByPath(path) instanceof TFolder)) return `文件夹不存在：${path}`;
+        if (this.plugin.settings.mainBoxes.some((other, i) => i !== index && other.path === path)) return '已有其他主盒使用该路径';
+
+        const idProperty = draft.idProperty.trim();
+        if (!idProperty) return '请填写主卡 ID 属性';
+        if (/[:#[\]{},"'`|>\n]/.test(idProperty) || /^[-?!&*%@]/.test(idProperty)) return 'ID 属性名包含无效字符';
+
+        const canvasPath = normalizePath(draft.canvasPath.trim());
+        if (!draft.canvasPath.trim() || canvasPath === '/') return '请填写 Canvas 存储路径';
+        return null;
+    }
+
+    private isMainBoxChanged(box: MainBoxConfig, draft: MainBoxConfig): boolean {
+        return normalizePath(draft.path.trim()) !== box.path
+            || draft.idProperty.trim() !== box.idProperty
+            || normalizePath(draft.canvasPath.trim()) !== box.canvasPath
+            || draft.includeSubfolders !== box.includeSubfolders;
+    }
+
+    // 先应用路径等设置，再按需迁移 ID 属性并切换，最后检查知识树的根主卡是否仍然存在
+    private async applyMainBoxSettings(box: MainBoxConfig, draft: MainBoxConfig) {
+        const { cardIndex, fileManager, canvasManager, structureNoteManager, retiredIdRegistry } = this.plugin;
+        const path = normalizePath(draft.path.trim());
+        const idProperty = draft.idProperty.trim();
+        const propertyChanged = idProperty !== box.idProperty;
+
+        let migration: IdPropertyMigration = 'none';
+        if (propertyChanged) {
+            const choice = await new IdPropertyMigrationModal(this.app, box.idProperty, idProperty, cardIndex.getEntries(box).length).choose();
+            if (choice === null) return;
+            migration = choice;
+        }
+
+        // 在旧的 Canvas 路径下查找知识树，更新退役编号、知识树和结构笔记中记录的主盒路径
+        if (path !== box.path) {
+            await retiredIdRegistry.updateBoxPath(box.path, path);
+            await canvasManager.updateBoxPath(box.path, path);
+            await structureNoteManager.updateBoxPath(box.path, path);
+        }
+
+        box.path = path;
+        box.canvasPath = normalizePath(draft.canvasPath.trim());
+        box.includeSubfolders = draft.includeSubfolders;
+        await this.plugin.saveSettings();
+        cardIndex.build();
+
+        if (propertyChanged) {
+            const changes = migration === 'none' ? [] : await fileManager.migrateIdProperty(box, idProperty, migration);
+            box.idProperty = idProperty;
+            await this.plugin.saveSettings();
+            await fileManager.waitForCardIds(changes);
+            cardIndex.build();
+            if (migration !== 'none') new Notice(`已为 ${changes.length} 张主卡写入属性 ${idProperty}`);
+        }
+        this.plugin.uiManager.refreshViews();
+
+        const broken = await canvasManager.getBrokenKnowledgeTrees();
+        if (broken.length > 0) {
+            new Notice(`有 ${broken.length} 个知识树的根主卡已不存在：${broken.map(file => file.basename).join('、')}`);
+        }
+    }
+
+    private async saveIdScheme() {
+        await this.plugin.saveSettings();
+        this.plugin.applyIdScheme();
+        this.plugin.cardIndex.build();
+        this.plugin.uiManager.refreshViews();
+    }
+
+    private addLayoutNumberSetting(name: string, key: Exclude<keyof CanvasLayoutOptions, 'type'>) {
+        new Setting(this.containerEl)
+            .setName(name)
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SETTINGS.canvasLayout[key]))
+                .setValue(String(this.plugin.settings.canvasLayout[key]))
+                .onChange(async (value) => {
+                    const number = parseInt(value);
+                    if (isNaN(number) || number < 0) return;
+                    this.plugin.settings.canvasLayout[key] = number;
+                    await this.plugin.saveSettings();
                 }));
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,134 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { CardStats, MainCardEntry } from '@/types';
+import { CardStatistics } from '@/modules/card-statistics';
+
+export const STATISTICS_VIEW_TYPE = 'zettelkasten-statistics';
+
+// 分布图中最长的条形字符数
+const BAR_WIDTH = 20;
+
+// 主盒统计视图：帮助了解哪些分支在增长、哪些被冷落
+export class StatisticsView extends ItemView {
+    private statistics: CardStatistics;
+
+    constructor(leaf: WorkspaceLeaf, private plugin: ZettelkastenPlugin) {
+        super(leaf);
+        this.statistics = new CardStatistics(plugin);
+    }
+
+    getViewType(): string {
+        return STATISTICS_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return '主盒统计';
+    }
+
+    getIcon(): string {
+        return 'bar-chart-2';
+    }
+
+    async onOpen() {
+        this.render();
+    }
+
+    render() {
+        const container = this.contentEl;
+        container.empty();
+
+        const boxes = this.plugin.cardIndex.getBoxes();
+        if (boxes.length === 0) {
+            container.createDiv({ cls: 'pane-empty', text: '还没有设置主盒' });
+            return;
+        }
+        for (const box of boxes) {
+            const stats = this.statistics.collect(box);
+            if (boxes.length > 1) container.createEl('h3', { text: box.path });
+            this.renderStats(container, stats);
+        }
+    }
+
+    private renderStats(container: HTMLElement, stats: CardStats) {
+        container.createDiv({ cls: 'nav-header', text: `共 ${stats.total} 张主卡，${stats.branches.length} 个顶层分支` });
+        if (stats.total === 0) return;
+
+        container.createEl('h4', { text: '各顶层分支的主卡数' });
+        this.renderBars(container, stats.branches.map(branch => ({
+            label: branch.root ? this.getLabel(branch.root) : branch.rootId,
+            count: branch.count
+        })));
+
+        container.createEl('h4', { text: '层级分布' });
+        this.renderBars(container, stats.depthCounts.map(({ depth, count }) => ({ label: `第 ${depth} 层`, count })));
+
+        container.createEl('h4', { text: '子主卡最多的主卡' });
+        this.renderList(container, stats.widest, ({ entry, childCount }, itemEl) => {
+            this.createCardLink(itemEl, entry);
+            itemEl.appendText(`：${childCount} 张子主卡`);
+        });
+
+        container.createEl('h4', { text: '最深的分支' });
+        this.renderList(container, stats.deepest, (branch, itemEl) => {
+            if (branch.root) {
+                this.createCardLink(itemEl, branch.root);
+            } else {
+                itemEl.appendText(branch.rootId);
+            }
+            itemEl.appendText(`：${branch.maxDepth} 层，${branch.count} 张主卡`);
+        });
+
+        container.createEl('h4', { text: '每周新建主卡' });
+        this.renderBars(container, stats.weeks.map(({ week, count }) => ({ label: week, count })));
+
+        container.createEl('h4', { text: `孤立的末端主卡（${stats.isolatedLeaves.length}）` });
+        container.createDiv({ cls: 'setting-item-description', text: '没有子主卡，也没有链入或链出的链接' });
+        this.renderList(container, stats.isolatedLeaves, (entry, itemEl) => this.createCardLink(itemEl, entry));
+
+        const gaps = stats.nearlyExhausted;
+        container.createEl('h4', { text: gaps ? `即将用尽的编号空间（${gaps.length}）` : '即将用尽的编号空间' });
+        if (!gaps) {
+            container.createDiv({ cls: 'setting-item-description', text: '当前编号方案的步长过小，相邻编号之间本就没有多少空间，不检查编号空间' });
+            return;
+        }
+        this.renderList(container, gaps, (gap, itemEl) => {
+            const range = gap.previousId ? `${gap.previousId} 与 ${gap.nextId} 之间` : `${gap.nextId} 之前`;
+            itemEl.appendText(`${range}：剩余 ${gap.free} 个编号`);
+        });
+    }
+
+    // 以文字条形图展示数量分布
+    private renderBars(container: HTMLElement, rows: { label: string; count: number }[]) {
+        const max = Math.max(1, ...rows.map(({ count }) => count));
+        const listEl = container.createDiv();
+        for (const { label, count } of rows) {
+            const rowEl = listEl.createDiv({ cls: 'tree-item-self' });
+            rowEl.createDiv({ cls: 'tree-item-inner', text: label });
+            rowEl.createDiv({ cls: 'tree-item-flair-outer', text: `${'█'.repeat(Math.round(count / max * BAR_WIDTH))} ${count}` });
+        }
+    }
+
+    private renderList<T>(container: HTMLElement, items: T[], renderItem: (item: T, itemEl: HTMLElement) => void) {
+        if (items.length === 0) {
+            container.createDiv({ cls: 'mod-muted', text: '无' });
+            return;
+        }
+        const listEl = container.createEl('ul');
+        for (const item of items) {
+            renderItem(item, listEl.createEl('li'));
+        }
+    }
+
+    private createCardLink(parentEl: HTMLElement, entry: MainCardEntry) {
+        const linkEl = parentEl.createEl('a', { cls: 'internal-link', text: this.getLabel(entry) });
+        linkEl.addEventListener('click', (evt) => {
+            evt.preventDefault();
+            this.app.workspace.getLeaf(evt.ctrlKey || evt.metaKey).openFile(entry.file);
+        });
+    }
+
+    private getLabel(entry: MainCardEntry): string {
+        const title = this.plugin.fileManager.getCardTitle(entry.file);
+        return title === entry.id ? entry.id : `${entry.id} ${title}`;
+    }
+}
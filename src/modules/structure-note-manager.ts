@@ -0,0 +1,126 @@
+import { TFile, TFolder, normalizePath } from 'obsidian';
+import { ZettelkastenPlugin } from '@/main';
+import { IdChange, MainBoxConfig } from '@/types';
+import { MainCardIdHelper } from '@/modules/id-helper';
+
+// 结构笔记通过这两个属性记录根主卡 ID 和所属主盒
+const ROOT_PROPERTY = 'structure-root';
+const BOX_PROPERTY = 'structure-box';
+const BLOCK_START = '<!-- zettelkasten-structure:start -->';
+const BLOCK_END = '<!-- zettelkasten-structure:end -->';
+
+// 结构笔记：以嵌套列表列出分支下的所有主卡，只重写标记之间的生成内容
+export class StructureNoteManager {
+    constructor(private plugin: ZettelkastenPlugin) {}
+
+    async createStructureNote(rootFile: TFile): Promise<void> {
+        const { vault, workspace } = this.plugin.app;
+        const rootEntry = this.plugin.cardIndex.getEntry(rootFile);
+        if (!rootEntry) throw new Error('当前文件不是主卡');
+        const { box, id: rootCardId } = rootEntry;
+        const folderPath = normalizePath(this.plugin.settings.structureNotePath);
+        if (!vault.getAbstractFileByPath(folderPath)) {
+            await vault.createFolder(folderPath);
+        }
+
+        // 已存在时只刷新并打开
+        const notePath = normalizePath(`${folderPath}/${rootFile.basename}结构.md`);
+        let note = vault.getAbstractFileByPath(notePath);
+        if (!(note instanceof TFile)) {
+            note = await vault.create(notePath, `# ${rootFile.basename} 结构\n\n${BLOCK_START}\n${BLOCK_END}\n`);
+        }
+        const noteFile = note as TFile;
+        await this.plugin.app.fileManager.processFrontMatter(noteFile, (frontmatter) => {
+            frontmatter[ROOT_PROPERTY] = rootCardId;
+            frontmatter[BOX_PROPERTY] = box.path;
+        });
+        await this.updateStructureNote(noteFile, box, rootCardId);
+        await workspace.getLeaf('tab').openFile(noteFile);
+    }
+
+    async updateStructureNote(note: TFile, box: MainBoxConfig, rootCardId: string): Promise<void> {
+        const block = `${BLOCK_START}\n${this.renderOutline(box, rootCardId, note.path)}${BLOCK_END}`;
+        await this.plugin.app.vault.process(note, (content) => {
+            const start = content.indexOf(BLOCK_START);
+            const end = content.indexOf(BLOCK_END, start);
+            // 没有生成块时追加到末尾，保留已有内容
+            if (start === -1 || end === -1) {
+                return content.replace(/\n*$/, '\n\n') + block + '\n';
+            }
+            return content.slice(0, start) + block + content.slice(end + BLOCK_END.length);
+        });
+    }
+
+    // 主卡 ID 变化（创建、删除、重命名、移动）后同步根主卡 ID 并刷新受影响的结构笔记
+    async updateStructureNotesOnIdChanges(changes: IdChange[]): Promise<void> {
+        for (const note of this.getStructureNotes()) {
+            const root = this.getRoot(note);
+            if (!root) continue;
+            const { box } = root;
+            let rootCardId = root.rootCardId;
+
+            const boxChanges = changes.filter(({ file }) => this.plugin.cardIndex.getBoxForFile(file)?.path === box.path);
+            const rootChange = boxChanges.find(({ oldId, newId }) => oldId === rootCardId && newId !== oldId);
+            if (rootChange) {
+                rootCardId = rootChange.newId;
+                await this.plugin.app.fileManager.processFrontMatter(note, (frontmatter) => {
+                    frontmatter[ROOT_PROPERTY] = rootChange.newId;
+                });
+            }
+
+            const affected = boxChanges.some(({ oldId, newId }) =>
+                MainCardIdHelper.isInSubtree(oldId, rootCardId as string) ||
+                MainCardIdHelper.isInSubtree(newId, rootCardId as string)
+            );
+            if (rootChange || affected) {
+                await this.updateStructureNote(note, box, rootCardId);
+            }
+        }
+    }
+
+    async refreshAllStructureNotes(): Promise<void> {
+        for (const note of this.getStructureNotes()) {
+            const root = this.getRoot(note);
+            if (root) await this.updateStructureNote(note, root.box, root.rootCardId);
+        }
+    }
+
+    // 主盒路径修改后，更新结构笔记中记录的所属主盒
+    async updateBoxPath(oldPath: string, newPath: string): Promise<void> {
+        const { metadataCache, fileManager } = this.plugin.app;
+        for (const note of this.getStructureNotes()) {
+            if (metadataCache.getFileCache(note)?.frontmatter?.[BOX_PROPERTY] !== oldPath) continue;
+            await fileManager.processFrontMatter(note, (frontmatter) => {
+                frontmatter[BOX_PROPERTY] = newPath;
+            });
+        }
+    }
+
+    // 按阅读顺序列出子孙主卡，按相对根主卡的层级缩进
+    private renderOutline(box: MainBoxConfig, rootCardId: string, sourcePath: string): string {
+        const { metadataCache } = this.plugin.app;
+        let outline = '';
+        for (const entry of this.plugin.cardIndex.getSubtree(box, rootCardId)) {
+            if (entry.id === rootCardId) continue;
+            const depth = this.plugin.cardIndex.getDepthInSubtree(box, entry.id, rootCardId) - 1;
+            outline += `${'\t'.repeat(depth)}- [[${metadataCache.fileToLinktext(entry.file, sourcePath, true)}]]\n`;
+        }
+        return outline;
+    }
+
+    // 旧版结构笔记没有记录主盒，视为属于第一个主盒
+    private getRoot(note: TFile): { rootCardId: string; box: MainBoxConfig } | null {
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(note)?.frontmatter;
+        const value = frontmatter?.[ROOT_PROPERTY];
+        if (value === undefined || value === null) return null;
+        const boxes = this.plugin.cardIndex.getBoxes();
+        const box = boxes.find(({ path }) => path === frontmatter?.[BOX_PROPERTY]) ?? boxes[0];
+        return box ? { rootCardId: String(value), box } : null;
+    }
+
+    private getStructureNotes(): TFile[] {
+        const folder = this.plugin.app.vault.getAbstractFileByPath(normalizePath(this.plugin.settings.structureNotePath));
+        if (!(folder instanceof TFolder)) return [];
+        return folder.children.filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+    }
+}
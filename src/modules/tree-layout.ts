@@ -0,0 +1,136 @@
+import { TFile } from 'obsidian';
+import { CanvasLayoutOptions, CanvasLayoutType } from '@/types';
+
+export interface TreeNode {
+    id: string;
+    // 折叠分支的占位节点没有对应文件
+    file: TFile | null;
+    hiddenCount?: number;
+    children: TreeNode[];
+    parent: TreeNode | null;
+    level: number;
+    x: number;
+    y: number;
+}
+
+export const LAYOUT_LABELS: Record<CanvasLayoutType, string> = {
+    'left-right': '从左到右',
+    'top-down': '从上到下',
+    'radial': '放射状',
+    'outline': '缩进大纲'
+};
+
+// 各布局中父节点到子节点的连线方向
+export const LAYOUT_EDGE_SIDES: Record<CanvasLayoutType, { fromSide: string; toSide: string }> = {
+    'left-right': { fromSide: 'right', toSide: 'left' },
+    'top-down': { fromSide: 'bottom', toSide: 'top' },
+    'radial': { fromSide: 'right', toSide: 'left' },
+    'outline': { fromSide: 'bottom', toSide: 'left' }
+};
+
+// 按布局类型为整棵树计算节点坐标（节点左上角）
+export function applyLayout(root: TreeNode, options: CanvasLayoutOptions) {
+    switch (options.type) {
+        case 'top-down':
+            layoutCompact(root, options.nodeWidth + options.siblingGap);
+            forEachNode(root, node => {
+                const breadth = node.y;
+                node.x = breadth;
+                node.y = node.level * (options.nodeHeight + options.levelGap);
+            });
+            break;
+        case 'radial':
+            layoutRadial(root, options);
+            break;
+        case 'outline':
+            layoutOutline(root, options);
+            break;
+        default:
+            layoutCompact(root, options.nodeHeight + options.siblingGap);
+            forEachNode(root, node => {
+                node.x = node.level * (options.nodeWidth + options.levelGap);
+            });
+    }
+}
+
+function forEachNode(node: TreeNode, fn: (node: TreeNode) => void) {
+    fn(node);
+    node.children.forEach(child => forEachNode(child, fn));
+}
+
+// 紧凑树形布局算法：同层节点紧凑排列，分支可重叠，父节点居中
+// 结果写入 node.y，表示节点在同层方向上的位置
+function layoutCompact(root: TreeNode, step: number) {
+    const nextYByLevel: number[] = [];
+    function layoutTree(node: TreeNode, level: number) {
+        if (nextYByLevel[level] === undefined) {
+            nextYByLevel[level] = 0;
+        }
+
+        if (node.children.length === 0) {
+            node.y = nextYByLevel[level];
+            nextYByLevel[level] += step;
+        } else {
+            for (const child of node.children) {
+                layoutTree(child, level + 1);
+            }
+            const minY = Math.min(...node.children.map(c => c.y));
+            const maxY = Math.max(...node.children.map(c => c.y));
+            node.y = (minY + maxY) / 2;
+            if (node.y < nextYByLevel[level]) { // 如果需要下移节点，则下移所有子孙节点
+                const yOffset = nextYByLevel[level] - node.y;
+                function shiftChildren(children: TreeNode[], level: number, yOffset: number) {
+                    for (const child of children) {
+                        child.y += yOffset;
+                        if (child.children.length > 0) {
+                            shiftChildren(child.children, level + 1, yOffset);
+                        }
+                    }
+                    nextYByLevel[level] += yOffset;
+                }
+                shiftChildren(node.children, level+1, yOffset);
+                node.y = nextYByLevel[level];
+            }
+            nextYByLevel[level] = Math.max(nextYByLevel[level], node.y + step);
+        }
+    }
+    layoutTree(root, 0);
+}
+
+// 放射状布局：根节点居中，每个叶子节点分得相同的角度，父节点取子节点角度的平均值
+function layoutRadial(root: TreeNode, options: CanvasLayoutOptions) {
+    const leaves: TreeNode[] = [];
+    forEachNode(root, node => {
+        if (node.children.length === 0) leaves.push(node);
+    });
+    const angles = new Map<TreeNode, number>();
+    const angleStep = (2 * Math.PI) / Math.max(leaves.length, 1);
+    leaves.forEach((leaf, index) => angles.set(leaf, index * angleStep));
+
+    function assignAngle(node: TreeNode): number {
+        if (node.children.length === 0) return angles.get(node) as number;
+        const childAngles = node.children.map(assignAngle);
+        const angle = childAngles.reduce((sum, a) => sum + a, 0) / childAngles.length;
+        angles.set(node, angle);
+        return angle;
+    }
+    assignAngle(root);
+
+    const ringGap = Math.max(options.nodeWidth, options.nodeHeight) + options.levelGap;
+    forEachNode(root, node => {
+        const radius = node.level * ringGap;
+        const angle = angles.get(node) as number;
+        node.x = Math.round(radius * Math.cos(angle) - options.nodeWidth / 2);
+        node.y = Math.round(radius * Math.sin(angle) - options.nodeHeight / 2);
+    });
+}
+
+// 缩进大纲布局：按阅读顺序每个节点占一行，层级越深缩进越多
+function layoutOutline(root: TreeNode, options: CanvasLayoutOptions) {
+    let row = 0;
+    forEachNode(root, node => {
+        node.x = node.level * options.levelGap;
+        node.y = row * (options.nodeHeight + options.siblingGap);
+        row++;
+    });
+}
@@ -0,0 +1,86 @@
+import { App, Modal, Setting } from 'obsidian';
+import { CrossLinkOptions, KnowledgeTreeFilter } from '@/types';
+
+// 编辑知识树的深度、折叠分支、筛选条件和链接连线
+export class KnowledgeTreeOptionsModal extends Modal {
+    private filter: KnowledgeTreeFilter;
+    private crossLinks: CrossLinkOptions;
+
+    constructor(
+        app: App,
+        filter: KnowledgeTreeFilter,
+        crossLinks: CrossLinkOptions | undefined,
+        private onSubmit: (filter: KnowledgeTreeFilter, crossLinks: CrossLinkOptions) => void
+    ) {
+        super(app);
+        this.filter = { ...filter };
+        this.crossLinks = { enabled: false, showExternal: false, ...crossLinks };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('知识树选项');
+
+        new Setting(contentEl)
+            .setName('最大深度')
+            .setDesc('根主卡为第 0 层，留空表示不限制；更深的分支显示为 "+N" 占位节点')
+            .addText(text => text
+                .setValue(this.filter.maxDepth === undefined ? '' : String(this.filter.maxDepth))
+                .onChange(value => {
+                    const depth = parseInt(value);
+                    this.filter.maxDepth = isNaN(depth) || depth < 0 ? undefined : depth;
+                }));
+
+        this.addListSetting('折叠的分支', '主卡 ID，以逗号分隔', 'collapsedIds');
+        this.addListSetting('包含标签', '只展示带有任一标签的主卡（及其上级）', 'includeTags');
+        this.addListSetting('排除标签', '隐藏带有任一标签的主卡及其分支', 'excludeTags');
+        this.addListSetting('包含属性', '写作 key 或 key=value，以逗号分隔', 'includeProperties');
+        this.addListSetting('排除属性', '写作 key 或 key=value，以逗号分隔', 'excludeProperties');
+
+        new Setting(contentEl)
+            .setName('显示链接')
+            .setDesc('为知识树中主卡之间的链接添加次级连线')
+            .addToggle(toggle => toggle
+                .setValue(this.crossLinks.enabled)
+                .onChange(value => {
+                    this.crossLinks.enabled = value;
+                }));
+
+        new Setting(contentEl)
+            .setName('显示树外链接')
+            .setDesc('为知识树外被链接或链接到知识树的主卡添加节点')
+            .addToggle(toggle => toggle
+                .setValue(this.crossLinks.showExternal)
+                .onChange(value => {
+                    this.crossLinks.showExternal = value;
+                }));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('保存')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onSubmit(this.filter, this.crossLinks);
+                }))
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private addListSetting(name: string, desc: string, key: Exclude<keyof KnowledgeTreeFilter, 'maxDepth'>) {
+        new Setting(this.contentEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => text
+                .setValue((this.filter[key] ?? []).join(', '))
+                .onChange(value => {
+                    const items = value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+                    this.filter[key] = items.length > 0 ? items : undefined;
+                }));
+    }
+}
@@ -1,123 +1,64 @@
-import { App, WorkspaceLeaf, TFile, TFolder } from 'obsidian';
+import { View, WorkspaceLeaf, debounce } from 'obsidian';
 import { ZettelkastenPlugin } from '@/main';
-import { MainCardIdHelper } from '@/modules/id-helper';
+import { HierarchyView, HIERARCHY_VIEW_TYPE } from '@/modules/hierarchy-view';
+import { CardContextView, CARD_CONTEXT_VIEW_TYPE } from '@/modules/card-context-view';
+import { RetiredIdView, RETIRED_ID_VIEW_TYPE } from '@/modules/retired-id-view';
+import { JournalView, JOURNAL_VIEW_TYPE } from '@/modules/journal-view';
+import { StatisticsView, STATISTICS_VIEW_TYPE } from '@/modules/statistics-view';
 
 export class UIManager {
-    private treePrefixCache: Map<number, string> = new Map();
-
     constructor(private plugin: ZettelkastenPlugin) {}
 
-    private getTreePrefix(parts: number) {
-        // 检查缓存中是否存在结果
-        const cachedResult = this.treePrefixCache.get(parts);
-        if (cachedResult !== undefined) {
-            return cachedResult;
+    // 合并短时间内的多次刷新（批量创建、重命名时会连续触发事件）
+    refreshViews = debounce(() => {
+        for (const view of this.getViews(HIERARCHY_VIEW_TYPE, HierarchyView)) {
+            view.render();
+        }
+        for (const view of this.getViews(CARD_CONTEXT_VIEW_TYPE, CardContextView)) {
+            view.render();
+        }
+        for (const view of this.getViews(RETIRED_ID_VIEW_TYPE, RetiredIdView)) {
+            view.render();
+        }
+        for (const view of this.getViews(JOURNAL_VIEW_TYPE, JournalView)) {
+            view.render();
         }
+        for (const view of this.getViews(STATISTICS_VIEW_TYPE, StatisticsView)) {
+            view.render();
+        }
+    }, 100, true);
 
-        // 计算新结果
-        const result = parts === 1 ? '' : '  '.repeat(parts - 1) + '└ ';
-        
-        // 存储到缓存中
-        this.treePrefixCache.set(parts, result);
-        
-        return result;
+    // 打开（或定位到已打开的）侧边栏视图
+    async activateView(viewType: string, side: 'left' | 'right'): Promise<WorkspaceLeaf | null> {
+        const workspace = this.plugin.app.workspace;
+        let leaf = workspace.getLeavesOfType(viewType)[0];
+        if (!leaf) {
+            const sideLeaf = side === 'left' ? workspace.getLeftLeaf(false) : workspace.getRightLeaf(false);
+            if (!sideLeaf) return null;
+            leaf = sideLeaf;
+            await leaf.setViewState({ type: viewType, active: true });
+        }
+        await workspace.revealLeaf(leaf);
+        return leaf;
     }
 
-    updateExplorerTitles() {
-        const mainBoxFolder = this.plugin.app.vault.getAbstractFileByPath(this.plugin.settings.mainBoxPath);
-        if (!(mainBoxFolder instanceof TFolder)) return;
-
-        // 获取所有文件资源管理器实例
-        const explorers = document.querySelectorAll('.workspace-leaf-content[data-type="file-explorer"]');
-        if (explorers.length === 0) return;
-
-        explorers.forEach(explorer => {
-            const mainBoxEl = explorer.querySelector(`[data-path="${this.plugin.settings.mainBoxPath}"]`);
-            if (!mainBoxEl) return;
-
-            // 获取主盒文件夹的展开状态
-            const isExpanded = mainBoxEl.classList.contains('is-collapsed') === false;
-            if (!isExpanded) return;
-
-            const childrenContainer = mainBoxEl.nextElementSibling;
-            if (!childrenContainer) return;
-
-            const fileElements = Array.from(childrenContainer.querySelectorAll('.nav-file'));
-            
-            // 批量处理所有文件元素
-            fileElements.forEach((el: Element) => {
-                const titleDiv = el.querySelector('.nav-file-title');
-                if (!titleDiv) return;
-                
-                const path = titleDiv.getAttribute('data-path');
-                const titleEl = el.querySelector('.nav-file-title-content');
-                if (!titleEl || !path || !path.startsWith(this.plugin.settings.mainBoxPath)) return;
-                
-                const file = this.plugin.app.vault.getAbstractFileByPath(path);
-                if (!(file instanceof TFile)) return;
-
-                const cardId = this.plugin.fileManager.getCardId(file);
-                if (!cardId) return;
+    async activateHierarchyView(): Promise<HierarchyView | null> {
+        const leaf = await this.activateView(HIERARCHY_VIEW_TYPE, 'left');
+        return leaf && leaf.view instanceof HierarchyView ? leaf.view : null;
+    }
 
-                let prefix = `${cardId}:`;
-                if (this.plugin.settings.explorerDisplayMode === 'tree') {
-                    prefix = this.getTreePrefix(cardId.split('-').length);
-                }
-                titleEl.textContent = `${prefix}${file.basename}`;
-            });
-        });
+    async revealActiveFileInHierarchy(): Promise<void> {
+        const view = await this.activateHierarchyView();
+        view?.revealActiveFile();
     }
 
-    patchMainBoxFileItemSort() {
-        const leaves = this.plugin.app.workspace.getLeavesOfType('file-explorer');
-        if (leaves.length === 0) return;
-        const view = (leaves[0] as any).view;
-        if (!view.fileItems) return;
-        const item = view.fileItems[this.plugin.settings.mainBoxPath];
-        if (
-            item &&
-            typeof item.sort === 'function' &&
-            !item.sort._zettelkastenPatched &&
-            item.file &&
-            item.file.path === this.plugin.settings.mainBoxPath &&
-            item.vChildren &&
-            Array.isArray(item.vChildren._children)
-        ) {
-            const plugin = this.plugin;
-            const originalSort = item.sort;
-            item.sort = function (...args: any[]) {
-                // 先调用原始排序，保证结构完整
-                const result = originalSort.apply(this, args);
-                // 然后对 vChildren._children 进行自定义排序
-                this.vChildren._children.sort((a: any, b: any) => {
-                    if (a.file instanceof TFile && b.file instanceof TFile) {
-                        const idA = plugin.fileManager.getCardId(a.file);
-                        const idB = plugin.fileManager.getCardId(b.file);
-                        // 使用新的 compareIds 方法进行数字分段比较
-                        return MainCardIdHelper.compareIds(idA, idB);
-                    }
-                    return 0;
-                });
-                return result;
-            };
-            item.sort._zettelkastenPatched = true;
-        }
+    async activateCardContextView(): Promise<void> {
+        await this.activateView(CARD_CONTEXT_VIEW_TYPE, 'right');
     }
 
-    patchMainBoxFileItemSortWithRetry(retry = 5, delay = 100) {
-        const leaves = this.plugin.app.workspace.getLeavesOfType('file-explorer');
-        if (leaves.length === 0) return;
-        const view = (leaves[0] as any).view;
-        if (!view.fileItems) {
-            if (retry > 0) setTimeout(() => this.patchMainBoxFileItemSortWithRetry(retry - 1, delay), delay);
-            return;
-        }
-        const item = view.fileItems[this.plugin.settings.mainBoxPath];
-        if (!item) {
-            if (retry > 0) setTimeout(() => this.patchMainBoxFileItemSortWithRetry(retry - 1, delay), delay);
-            return;
-        }
-        // 调用原有 patch 逻辑
-        this.patchMainBoxFileItemSort();
+    private getViews<T extends View>(viewType: string, viewClass: abstract new (...args: never[]) => T): T[] {
+        return this.plugin.app.workspace.getLeavesOfType(viewType)
+            .map(leaf => leaf.view)
+            .filter((view): view is T => view instanceof viewClass);
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,9 @@
+import 'obsidian';
+
+// Obsidian 未公开的 API
+declare module 'obsidian' {
+    interface Vault {
+        // 读取"文件与链接"等设置项，如 alwaysUpdateLinks
+        getConfig?(key: string): unknown;
+    }
+}
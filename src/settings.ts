@@ -1,15 +1,57 @@
+import { CanvasLayoutOptions, IdSchemeType, JournalEntry, MainBoxConfig, RetiredId } from './types';
+
 export interface ZettelkastenSettings {
-    mainBoxPath: string;
-    mainCardIdProperty: string;
+    mainBoxes: MainBoxConfig[];
     enableMainCardGenerationAssit: boolean;
-    canvasPath: string;
     explorerDisplayMode: 'id' | 'tree';
+    canvasLayout: CanvasLayoutOptions;
+    // 新主卡的文件名格式，支持 {{id}} 和 {{title}}
+    cardFileNamePattern: string;
+    // 新主卡的模板文件路径，留空表示不使用模板
+    cardTemplatePath: string;
+    structureNotePath: string;
+    exportPath: string;
+    // 收件箱文件夹，其中的笔记可归档为主卡；留空表示不启用
+    inboxPath: string;
+    // 关键词索引文件夹，每篇笔记是一个关键词
+    indexPath: string;
+    idScheme: IdSchemeType;
+    // 分段数字方案的编号步长和顶层编号位数（0 表示不限制）
+    idStep: number;
+    topLevelIdWidth: number;
+    // 已退役的编号，由删除主卡时记录，不在设置面板中显示
+    retiredIds: RetiredId[];
+    // 主卡操作日志，最近的操作在最后
+    journal: JournalEntry[];
 }
 
+export const DEFAULT_MAIN_BOX: MainBoxConfig = {
+    path: 'MainBox',
+    idProperty: 'alias',
+    canvasPath: 'Canvas',
+    includeSubfolders: false
+};
+
 export const DEFAULT_SETTINGS: ZettelkastenSettings = {
-    mainBoxPath: 'MainBox',
-    mainCardIdProperty: 'alias',
+    mainBoxes: [],
     enableMainCardGenerationAssit: true,
-    canvasPath: 'Canvas',
-    explorerDisplayMode: 'id'
+    explorerDisplayMode: 'id',
+    canvasLayout: {
+        type: 'left-right',
+        nodeWidth: 480,
+        nodeHeight: 300,
+        levelGap: 240,
+        siblingGap: 55
+    },
+    cardFileNamePattern: '{{id}} {{title}}',
+    cardTemplatePath: '',
+    structureNotePath: 'Structure',
+    exportPath: 'Export',
+    inboxPath: 'Inbox',
+    indexPath: 'Index',
+    idScheme: 'numeric',
+    idStep: 10,
+    topLevelIdWidth: 4,
+    retiredIds: [],
+    journal: []
 }; 
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { App, Plugin, TFile, TFolder, WorkspaceLeaf } from 'obsidian';
 import { ZettelkastenSettings } from './settings';
-import { CanvasData } from './types';
+import { CanvasData, MainBoxConfig, NewCardId } from './types';
 
 declare global {
     interface Window {
@@ -21,27 +21,32 @@ export interface CanvasManager {
     saveCanvasData(file: TFile, data: CanvasData): Promise<void>;
     getCanvasRootCardId(file: TFile): Promise<string | undefined>;
     setCanvasRootCardId(file: TFile, rootCardId: string): Promise<void>;
+    getCanvasRoot(file: TFile): Promise<{ rootCardId: string; box: MainBoxConfig } | null>;
     createKnowledgeTreeCanvas(rootFile: TFile): Promise<void>;
+    openKnowledgeTreeCanvas(rootFile: TFile): Promise<void>;
     updateKnowledgeTreeCanvas(canvasFile: TFile): Promise<void>;
     updateAllKnowledgeTrees(newCard: TFile): Promise<void>;
     removeNodeFromKnowledgeTree(canvasFile: TFile, nodeId: string): Promise<void>;
-    updateAllKnowledgeTreesOnDelete(deletedFile: TFile): Promise<void>;
+    updateAllKnowledgeTreesOnDelete(deletedFile: TFile, deletedCardId?: string): Promise<void>;
 }
 
 export interface FileManager {
     getCardId(file: TFile): string;
-    getCardDisplayName(file: TFile): Promise<string>;
-    getSortedMainCards(): Promise<TFile[]>;
-    createNewMainCard(id: string, parent: TFolder): Promise<void>;
+    getCardTitle(file: TFile): string;
+    getSortedMainCards(box: MainBoxConfig): Promise<TFile[]>;
+    createNewMainCard(id: string, parent: TFolder, title?: string): Promise<TFile>;
+    createMainCardFile(id: string, parent: TFolder, title: string, body?: string): Promise<TFile>;
     createNewSiblingCard(currentFile: TFile): Promise<void>;
     createNewChildCard(parentFile: TFile): Promise<void>;
+    generateSiblingCardId(currentFile: TFile): Promise<NewCardId | null>;
+    generateChildCardId(parentFile: TFile): Promise<NewCardId | null>;
+    isInboxNote(file: TFile): boolean;
 }
 
 export interface UIManager {
-    updateExplorerTitles(): void;
-    patchMainBoxFileItemSort(): void;
-    patchMainBoxFileItemSortWithRetry(retry?: number, delay?: number): void;
-    setupCanvasObserver(leaf: WorkspaceLeaf): void;
-    attachObserversToAllCanvases(): void;
-    detachAllCanvasObservers(): void;
+    refreshViews(): void;
+    activateView(viewType: string, side: 'left' | 'right'): Promise<WorkspaceLeaf | null>;
+    activateHierarchyView(): Promise<unknown>;
+    activateCardContextView(): Promise<void>;
+    revealActiveFileInHierarchy(): Promise<void>;
 } 
\ No newline at end of file
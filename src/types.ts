@@ -1,12 +1,64 @@
+import { TFile } from 'obsidian';
+
 // Canvas 相关的类型定义
 export interface CanvasData {
     nodes: CanvasNode[];
     edges: CanvasEdge[];
     meta?: {
         rootCardId?: string;
+        // 根主卡所属主盒的路径，缺省时按 Canvas 所在文件夹判断
+        mainBoxPath?: string;
+        // 插件生成并维护的节点和边，其余元素视为用户手动添加
+        managedNodeIds?: string[];
+        managedEdgeIds?: string[];
+        // 知识树布局，未设置的项使用全局默认值
+        layout?: Partial<CanvasLayoutOptions>;
+        // 知识树的深度、折叠和筛选设置
+        filter?: KnowledgeTreeFilter;
+        // 主卡之间的链接显示为次级连线
+        crossLinks?: CrossLinkOptions;
+        // 插件上一次生成的节点位置和尺寸，用于识别用户手动移动或缩放过的节点
+        nodeLayout?: Record<string, NodeLayout>;
     };
 }
 
+export type CanvasLayoutType = 'left-right' | 'top-down' | 'radial' | 'outline';
+
+export interface CanvasLayoutOptions {
+    type: CanvasLayoutType;
+    nodeWidth: number;
+    nodeHeight: number;
+    // 父子层级之间的间距
+    levelGap: number;
+    // 同层相邻节点之间的间距
+    siblingGap: number;
+}
+
+export interface KnowledgeTreeFilter {
+    // 最多展示的层级数（根主卡为第 0 层），超出的分支折叠为占位节点
+    maxDepth?: number;
+    // 折叠的分支根主卡 ID，其子孙主卡显示为一个 "+N" 占位节点
+    collapsedIds?: string[];
+    // 标签不带 "#"；属性写作 "key" 或 "key=value"
+    includeTags?: string[];
+    excludeTags?: string[];
+    includeProperties?: string[];
+    excludeProperties?: string[];
+}
+
+export interface CrossLinkOptions {
+    enabled: boolean;
+    // 为知识树外的被链接主卡添加占位节点
+    showExternal: boolean;
+}
+
+export interface NodeLayout {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
 export interface CanvasNode {
     id: string;
     type: string;
@@ -24,4 +76,129 @@ export interface CanvasEdge {
     fromSide: string;
     toSide: string;
     color?: string;
-} 
\ No newline at end of file
+    label?: string;
+} 
+
+// 主盒配置：每个主盒有独立的 ID 属性和知识树 Canvas 文件夹
+export interface MainBoxConfig {
+    path: string;
+    idProperty: string;
+    canvasPath: string;
+    // 是否包含子文件夹中的主卡
+    includeSubfolders: boolean;
+}
+
+// 主卡相关的类型定义
+export interface MainCardEntry {
+    file: TFile;
+    id: string;
+    // 主卡所属的主盒，不同主盒的 ID 互不相关
+    box: MainBoxConfig;
+}
+
+export interface IdChange {
+    file: TFile;
+    oldId: string;
+    newId: string;
+}
+
+// 新主卡的 ID；编号用尽并选择重排时，rebalance 为创建前需要应用的 ID 变化
+export interface NewCardId {
+    id: string;
+    rebalance: IdChange[];
+}
+
+// 主盒 ID 检查相关的类型定义
+export type IdIssueType = 'duplicate' | 'invalid-segment' | 'orphan' | 'top-level-format' | 'basename-mismatch' | 'dead-index-entry';
+
+export interface IdIssue {
+    type: IdIssueType;
+    // 失效的索引条目为所在的关键词笔记
+    file: TFile;
+    id: string;
+    message: string;
+    // 孤儿主卡缺失的父主卡 ID，或文件名中的 ID
+    relatedId?: string;
+}
+
+// 分支导出相关的类型定义
+export type ExportFormat = 'markdown' | 'html' | 'opml';
+
+// 大纲导入相关的类型定义
+export interface OutlineItem {
+    title: string;
+    body: string;
+    children: OutlineItem[];
+}
+
+// 导入位置：某个主盒中的某张主卡之下，parent 为 null 表示该主盒的顶层
+export interface ImportTarget {
+    box: MainBoxConfig;
+    parent: MainCardEntry | null;
+}
+
+export interface ImportPlanItem {
+    id: string;
+    title: string;
+    body: string;
+    // 相对导入位置的层级，第一层为 0
+    depth: number;
+}
+
+// 主卡编号方案：分段数字（4111-10-20）或数字字母交替（卢曼编号，21/3d7a6）
+export type IdSchemeType = 'numeric' | 'alternating';
+
+// 已删除主卡的编号，不再分配给新主卡
+export interface RetiredId {
+    boxPath: string;
+    id: string;
+    title: string;
+    // 删除日期，YYYY-MM-DD
+    deletedAt: string;
+}
+
+// 主卡操作日志：每次结构操作记录为一个条目，按步骤逆序撤销
+export type JournalStep =
+    // newHash 在操作结束时写入，撤销前检查新建的文件是否又被改动
+    | { type: 'create'; path: string; newHash?: string }
+    // temporary 为避免编号冲突而使用的临时文件名
+    | { type: 'rename'; oldPath: string; newPath: string; oldId?: string; newId?: string; temporary?: boolean }
+    | { type: 'property'; path: string; property: string; oldValue?: unknown; newValue: unknown }
+    // 只保存修改前的内容，修改后的内容用于撤销前检查文件是否又被改动
+    | { type: 'modify'; path: string; oldContent: string; newHash: string };
+
+export interface JournalEntry {
+    label: string;
+    timestamp: number;
+    steps: JournalStep[];
+}
+
+// 主盒统计相关的类型定义
+export interface BranchStats {
+    rootId: string;
+    // 顶层主卡本身不存在时为 undefined
+    root?: MainCardEntry;
+    count: number;
+    maxDepth: number;
+}
+
+export interface IdGapStats {
+    // null 表示父主卡第一个子主卡之前的编号
+    previousId: string | null;
+    nextId: string;
+    parentId: string | null;
+    free: number;
+}
+
+export interface CardStats {
+    box: MainBoxConfig;
+    total: number;
+    branches: BranchStats[];
+    depthCounts: { depth: number; count: number }[];
+    widest: { entry: MainCardEntry; childCount: number }[];
+    deepest: BranchStats[];
+    weeks: { week: string; count: number }[];
+    isolatedLeaves: MainCardEntry[];
+    // 编号方案步长过小时（如卢曼编号）不检查编号空间
+    nearlyExhausted: IdGapStats[] | null;
+}